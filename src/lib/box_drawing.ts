@@ -0,0 +1,85 @@
+// Box Drawing module for the Ghostty Graphics Library.
+// This module holds the characters used for Rectangle borders and merges box-drawing
+// characters that meet in the same cell, so that two frames sharing an edge or a
+// corner join with a proper tee or cross (e.g. "┐" drawn over "┌" becomes "┬").
+
+export type BorderStyle = "single" | "double" | "rounded" | "heavy" | "dashed" | "ascii";
+
+export interface BorderChars {
+    horizontal: string;
+    vertical: string;
+    topLeft: string;
+    topRight: string;
+    bottomLeft: string;
+    bottomRight: string;
+}
+
+export const BORDER_CHARS: { [style in BorderStyle]: BorderChars } = {
+    single: { horizontal: "─", vertical: "│", topLeft: "┌", topRight: "┐", bottomLeft: "└", bottomRight: "┘" },
+    double: { horizontal: "═", vertical: "║", topLeft: "╔", topRight: "╗", bottomLeft: "╚", bottomRight: "╝" },
+    rounded: { horizontal: "─", vertical: "│", topLeft: "╭", topRight: "╮", bottomLeft: "╰", bottomRight: "╯" },
+    heavy: { horizontal: "━", vertical: "┃", topLeft: "┏", topRight: "┓", bottomLeft: "┗", bottomRight: "┛" },
+    dashed: { horizontal: "┄", vertical: "┆", topLeft: "┌", topRight: "┐", bottomLeft: "└", bottomRight: "┘" },
+    ascii: { horizontal: "-", vertical: "|", topLeft: "+", topRight: "+", bottomLeft: "+", bottomRight: "+" }
+};
+
+// Directions a line leaves the cell in, as bits
+const UP = 1;
+const RIGHT = 2;
+const DOWN = 4;
+const LEFT = 8;
+
+type Weight = "light" | "heavy" | "double";
+
+// Character for every combination of directions, per line weight
+const JUNCTIONS: { [weight in Weight]: { [arms: number]: string } } = {
+    light: {
+        [LEFT | RIGHT]: "─", [UP | DOWN]: "│",
+        [RIGHT | DOWN]: "┌", [LEFT | DOWN]: "┐", [UP | RIGHT]: "└", [UP | LEFT]: "┘",
+        [UP | RIGHT | DOWN]: "├", [UP | LEFT | DOWN]: "┤", [LEFT | RIGHT | DOWN]: "┬", [LEFT | RIGHT | UP]: "┴",
+        [UP | RIGHT | DOWN | LEFT]: "┼"
+    },
+    heavy: {
+        [LEFT | RIGHT]: "━", [UP | DOWN]: "┃",
+        [RIGHT | DOWN]: "┏", [LEFT | DOWN]: "┓", [UP | RIGHT]: "┗", [UP | LEFT]: "┛",
+        [UP | RIGHT | DOWN]: "┣", [UP | LEFT | DOWN]: "┫", [LEFT | RIGHT | DOWN]: "┳", [LEFT | RIGHT | UP]: "┻",
+        [UP | RIGHT | DOWN | LEFT]: "╋"
+    },
+    double: {
+        [LEFT | RIGHT]: "═", [UP | DOWN]: "║",
+        [RIGHT | DOWN]: "╔", [LEFT | DOWN]: "╗", [UP | RIGHT]: "╚", [UP | LEFT]: "╝",
+        [UP | RIGHT | DOWN]: "╠", [UP | LEFT | DOWN]: "╣", [LEFT | RIGHT | DOWN]: "╦", [LEFT | RIGHT | UP]: "╩",
+        [UP | RIGHT | DOWN | LEFT]: "╬"
+    }
+};
+
+// Directions and weight of each character we know how to merge
+const ARMS: { [char: string]: { arms: number; weight: Weight } } = {};
+for (const weight of ["light", "heavy", "double"] as Weight[]) {
+    for (const [arms, char] of Object.entries(JUNCTIONS[weight])) {
+        ARMS[char] = { arms: Number(arms), weight };
+    }
+}
+// Rounded corners and dashed lines join like their light counterparts
+Object.assign(ARMS, {
+    "╭": { arms: RIGHT | DOWN, weight: "light" },
+    "╮": { arms: LEFT | DOWN, weight: "light" },
+    "╰": { arms: UP | RIGHT, weight: "light" },
+    "╯": { arms: UP | LEFT, weight: "light" },
+    "┄": { arms: LEFT | RIGHT, weight: "light" },
+    "┆": { arms: UP | DOWN, weight: "light" }
+});
+
+/**
+ * Character to draw when `above` is drawn on a cell that already shows `below`.
+ * Lines are combined when both are box-drawing characters; the result uses the
+ * weight of `above`. Anything else is simply replaced.
+ */
+export function mergeBoxChars(below: string, above: string): string {
+    const a = ARMS[below];
+    const b = ARMS[above];
+    if (!a || !b || (a.arms | b.arms) === b.arms) {
+        return above;
+    }
+    return JUNCTIONS[b.weight][a.arms | b.arms] ?? above;
+}
@@ -0,0 +1,304 @@
+// Cell Buffer module for the Ghostty Graphics Library.
+// This module defines the CellBuffer class, an in-memory grid of terminal cells
+// that nodes draw into. The renderer compares consecutive buffers and only sends
+// escape sequences for the cells that changed.
+
+import { Animation, AnimationPlayback, ImageSource, PixelRect } from "./image_data.ts";
+import { PlacedImage } from "./kitty.ts";
+import { graphemeWidth, graphemes } from "./text_width.ts";
+
+// Define types for clarity
+type Size = [number, number]; // [width, height]
+type Position = [number, number]; // [x, y]
+type Color = [number, number, number]; // [r, g, b]
+
+export interface Cell {
+    // One grapheme cluster. A wide (two-column) cluster is stored in its first cell and
+    // the second cell holds "" as a continuation marker.
+    char: string;
+    fg: Color | null; // null means the terminal's default foreground
+    bg: Color | null; // null means the terminal's default background
+    attrs: number; // Bitmask of text attributes (see text_style.ts), 0 means none
+    underlineColor: Color | null; // null means the underline uses the foreground color
+}
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface ImagePlacement {
+    source: ImageSource | Animation;
+    width: number | undefined; // Columns to scale to, undefined for the image's own size
+    height: number | undefined; // Rows to scale to, undefined for the image's own size
+    position: Position; // Position in cells
+    crop?: PixelRect; // Part of the image to show, all of it when undefined
+    playback?: AnimationPlayback; // Sent again whenever it is replaced by a new object
+    placeholder?: PlacedImage; // Ids named by the Unicode placeholder cells drawn for it; placed virtually
+}
+
+// Smallest rectangle covering both, treating null as empty
+export function unionRect(a: Rect | null, b: Rect | null): Rect | null {
+    if (a === null) {
+        return b;
+    }
+    if (b === null) {
+        return a;
+    }
+    const x = Math.min(a.x, b.x);
+    const y = Math.min(a.y, b.y);
+    return {
+        x,
+        y,
+        width: Math.max(a.x + a.width, b.x + b.width) - x,
+        height: Math.max(a.y + a.height, b.y + b.height) - y
+    };
+}
+
+export function rectsIntersect(a: Rect, b: Rect): boolean {
+    return a.x < b.x + b.width && b.x < a.x + a.width &&
+        a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+// Overlapping part of two rectangles, null when they do not overlap
+export function intersectRect(a: Rect, b: Rect): Rect | null {
+    const x = Math.max(a.x, b.x);
+    const y = Math.max(a.y, b.y);
+    const right = Math.min(a.x + a.width, b.x + b.width);
+    const bottom = Math.min(a.y + a.height, b.y + b.height);
+    if (right <= x || bottom <= y) {
+        return null;
+    }
+    return { x, y, width: right - x, height: bottom - y };
+}
+
+export function rectContains(rect: Rect, x: number, y: number): boolean {
+    return x >= rect.x && x < rect.x + rect.width && y >= rect.y && y < rect.y + rect.height;
+}
+
+function sameColor(a: Color | null, b: Color | null): boolean {
+    if (a === null || b === null) {
+        return a === b;
+    }
+    return a[0] === b[0] && a[1] === b[1] && a[2] === b[2];
+}
+
+// Two cells are equal when they would produce the same output on screen
+export function cellsEqual(a: Cell, b: Cell): boolean {
+    return a.char === b.char &&
+        a.attrs === b.attrs &&
+        sameColor(a.fg, b.fg) &&
+        sameColor(a.bg, b.bg) &&
+        sameColor(a.underlineColor, b.underlineColor);
+}
+
+export function blankCell(): Cell {
+    return { char: " ", fg: null, bg: null, attrs: 0, underlineColor: null };
+}
+
+// Typical cell size in pixels, assumed when the terminal has not reported its own
+const DEFAULT_CELL_PIXEL_SIZE: Size = [10, 20];
+
+export class CellBuffer {
+    width: number;
+    height: number;
+    cells: Cell[];
+    // Graphics are drawn out of band, after the cells. Keyed by the object that drew
+    // them so a partial repaint can replace one node's images without touching the rest.
+    images: Map<object, ImagePlacement>;
+    owner: object | null; // Object currently drawing, set by the renderer
+    mask: Rect[] | null; // Writes outside these regions are dropped; null allows everything
+    private clipStack: (Rect | null)[]; // Containers' clip rectangles, innermost last
+    touched: Rect | null; // Bounding box of visible cells written since last reset, ignoring the mask
+    cellPixelSize: Size | null; // Size of one cell in pixels, set by the renderer when known
+    graphics: boolean; // Whether images can be shown; when not, image nodes draw a stand-in
+    // Reserves ids for an image drawn with Unicode placeholders, set by the renderer.
+    // null when placeholders can not be used, e.g. without truecolor to carry the ids.
+    reserveImage: ((source: ImageSource | Animation) => PlacedImage) | null;
+
+    constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+        this.cells = [];
+        this.images = new Map();
+        this.owner = null;
+        this.mask = null;
+        this.clipStack = [];
+        this.touched = null;
+        this.cellPixelSize = null;
+        this.graphics = true;
+        this.reserveImage = null;
+        this.clear();
+    }
+
+    clear(): void {
+        this.cells = [];
+        for (let i = 0; i < this.width * this.height; i++) {
+            this.cells.push(blankCell());
+        }
+        this.images = new Map();
+    }
+
+    // Make this buffer an exact copy of another buffer of the same size
+    copyFrom(other: CellBuffer): void {
+        this.cells = other.cells.map((cell) => ({ ...cell }));
+        this.images = new Map(other.images);
+    }
+
+    // Size of one cell in pixels: the one reported by the terminal, or a typical one
+    pixelsPerCell(): Size {
+        return this.cellPixelSize ?? DEFAULT_CELL_PIXEL_SIZE;
+    }
+
+    // Number of columns that are as wide as `rows` rows are tall on screen
+    squareColumns(rows: number): number {
+        const [cellWidth, cellHeight] = this.pixelsPerCell();
+        return Math.round(rows * cellHeight / cellWidth);
+    }
+
+    // Reset a region to blank cells, respecting the mask
+    clearRect(rect: Rect): void {
+        for (let row = rect.y; row < rect.y + rect.height; row++) {
+            for (let col = rect.x; col < rect.x + rect.width; col++) {
+                this.setCell(col, row, " ", null, null, 0, null);
+            }
+        }
+    }
+
+    // Current clip rectangle: the intersection of everything pushed so far.
+    // undefined means nothing is clipped, null means everything is.
+    get clip(): Rect | null | undefined {
+        return this.clipStack.length > 0 ? this.clipStack[this.clipStack.length - 1] : undefined;
+    }
+
+    // Restrict drawing to a rectangle until the matching popClip
+    pushClip(rect: Rect): void {
+        const current = this.clip;
+        if (current === undefined) {
+            this.clipStack.push(rect);
+        } else {
+            this.clipStack.push(current === null ? null : intersectRect(current, rect));
+        }
+    }
+
+    popClip(): void {
+        this.clipStack.pop();
+    }
+
+    getCell(x: number, y: number): Cell | undefined {
+        if (x < 0 || y < 0 || x >= this.width || y >= this.height) {
+            return undefined;
+        }
+        return this.cells[y * this.width + x];
+    }
+
+    // Write a single cell. Colors and attributes left undefined keep whatever is already
+    // in the cell, so text drawn on top of a filled rectangle keeps the rectangle's background.
+    setCell(
+        x: number,
+        y: number,
+        char: string,
+        fg: Color | null | undefined = undefined,
+        bg: Color | null | undefined = undefined,
+        attrs: number | undefined = undefined,
+        underlineColor: Color | null | undefined = undefined
+    ): void {
+        const cell = this.getCell(x, y);
+        if (!cell) {
+            return; // Outside the screen
+        }
+        const clip = this.clip;
+        if (clip === null || (clip && !rectContains(clip, x, y))) {
+            return; // Outside the container being drawn
+        }
+        this.touched = unionRect(this.touched, { x, y, width: 1, height: 1 });
+        if (this.mask && !this.mask.some((rect) => rectContains(rect, x, y))) {
+            return;
+        }
+        // Overwriting either half of a wide character leaves the other half blank
+        if (cell.char === "" && char !== "") {
+            const lead = this.getCell(x - 1, y);
+            if (lead) {
+                lead.char = " ";
+            }
+        }
+        const next = this.getCell(x + 1, y);
+        if (next && next.char === "" && cell.char !== "") {
+            next.char = " ";
+        }
+        cell.char = char;
+        if (fg !== undefined) {
+            cell.fg = fg;
+        }
+        if (bg !== undefined) {
+            cell.bg = bg;
+        }
+        if (attrs !== undefined) {
+            cell.attrs = attrs;
+        }
+        if (underlineColor !== undefined) {
+            cell.underlineColor = underlineColor;
+        }
+    }
+
+    writeText(
+        x: number,
+        y: number,
+        text: string,
+        fg: Color | null | undefined = undefined,
+        bg: Color | null | undefined = undefined,
+        attrs: number | undefined = undefined,
+        underlineColor: Color | null | undefined = undefined
+    ): void {
+        let col = x;
+        for (const grapheme of graphemes(text)) {
+            const width = graphemeWidth(grapheme);
+            if (width === 0) {
+                continue; // Nothing to draw, e.g. a stray combining mark
+            }
+            if (width === 2 && !this._isWritable(col + 1, y)) {
+                // Only half of the character would be visible
+                this.setCell(col, y, " ", fg, bg, attrs, underlineColor);
+            } else {
+                this.setCell(col, y, grapheme, fg, bg, attrs, underlineColor);
+                if (width === 2) {
+                    this.setCell(col + 1, y, "", fg, bg, attrs, underlineColor);
+                }
+            }
+            col += width;
+        }
+    }
+
+    // Whether a cell is on screen and inside the current clip rectangle
+    private _isWritable(x: number, y: number): boolean {
+        if (!this.getCell(x, y)) {
+            return false;
+        }
+        const clip = this.clip;
+        return clip === undefined || (clip !== null && rectContains(clip, x, y));
+    }
+
+    fillRect(x: number, y: number, width: number, height: number, bg: Color | null): void {
+        for (let row = y; row < y + height; row++) {
+            for (let col = x; col < x + width; col++) {
+                this.setCell(col, row, " ", null, bg, 0, null);
+            }
+        }
+    }
+
+    addImage(placement: ImagePlacement): void {
+        this.images.set(this.owner ?? placement, placement);
+        // The cells the image covers count as drawn, so moving or removing it causes damage.
+        // Without a size we only know where its top-left corner is.
+        const [x, y] = placement.position;
+        const area = intersectRect(
+            { x, y, width: placement.width ?? 1, height: placement.height ?? 1 },
+            { x: 0, y: 0, width: this.width, height: this.height }
+        );
+        if (area) {
+            this.touched = unionRect(this.touched, area);
+        }
+    }
+}
@@ -0,0 +1,175 @@
+// Color module for the Ghostty Graphics Library.
+// This module works out how many colors the terminal can show and maps the
+// library's 24-bit RGB colors to what it supports: the xterm 256-color palette,
+// the 16 ANSI colors, or no color at all.
+
+// Define types for clarity
+type Color = [number, number, number]; // [r, g, b]
+
+export type ColorDepth = "truecolor" | "256" | "16" | "none";
+
+// Where environment variables are read from, Deno.env by default
+export interface ColorEnvironment {
+    get(name: string): string | undefined;
+}
+
+// Default xterm values of the 16 ANSI colors. Terminals let users change these,
+// so they are only an approximation of what is shown.
+const ANSI_COLORS: Color[] = [
+    [0, 0, 0], [205, 0, 0], [0, 205, 0], [205, 205, 0],
+    [0, 0, 238], [205, 0, 205], [0, 205, 205], [229, 229, 229],
+    [127, 127, 127], [255, 0, 0], [0, 255, 0], [255, 255, 0],
+    [92, 92, 255], [255, 0, 255], [0, 255, 255], [255, 255, 255]
+];
+
+// Channel values of the 6x6x6 color cube (palette entries 16-231)
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+// FORCE_COLOR levels, as understood by most command line tools
+const FORCE_COLOR_DEPTHS: { [level: string]: ColorDepth } = {
+    "0": "none",
+    "1": "16",
+    "2": "256",
+    "3": "truecolor"
+};
+
+/**
+ * Works out the terminal's color depth from the environment.
+ * NO_COLOR (any non-empty value) disables colors, FORCE_COLOR=0..3 overrides the
+ * detection, then COLORTERM and TERM are checked. Without access to the environment
+ * truecolor is assumed.
+ */
+export function detectColorDepth(env: ColorEnvironment = Deno.env): ColorDepth {
+    let noColor: string | undefined;
+    let forceColor: string | undefined;
+    let colorTerm: string;
+    let term: string;
+    try {
+        noColor = env.get("NO_COLOR");
+        forceColor = env.get("FORCE_COLOR");
+        colorTerm = (env.get("COLORTERM") ?? "").toLowerCase();
+        term = (env.get("TERM") ?? "").toLowerCase();
+    } catch (_e) {
+        return "truecolor"; // No permission to read the environment
+    }
+
+    if (noColor) {
+        return "none";
+    }
+    const forced = FORCE_COLOR_DEPTHS[forceColor ?? ""];
+    if (forced) {
+        return forced;
+    }
+
+    if (colorTerm === "truecolor" || colorTerm === "24bit") {
+        return "truecolor";
+    }
+
+    if (term === "dumb") {
+        return "none";
+    }
+    if (/kitty|ghostty|wezterm|direct|truecolor|24bit/.test(term)) {
+        return "truecolor";
+    }
+    if (term.includes("256color")) {
+        return "256";
+    }
+    if (term === "" && Deno.build.os === "windows") {
+        return "truecolor"; // Windows Terminal and conhost do not set TERM
+    }
+    return "16";
+}
+
+function distance(a: Color, b: Color): number {
+    const dr = a[0] - b[0];
+    const dg = a[1] - b[1];
+    const db = a[2] - b[2];
+    return dr * dr + dg * dg + db * db;
+}
+
+function nearestCubeLevel(value: number): number {
+    if (value < 48) {
+        return 0;
+    }
+    if (value < 115) {
+        return 1;
+    }
+    return Math.min(5, Math.floor((value - 35) / 40));
+}
+
+/**
+ * Nearest entry of the xterm 256-color palette. Only the color cube and the
+ * grayscale ramp (16-255) are used, since users often change entries 0-15.
+ */
+export function rgbToAnsi256(r: number, g: number, b: number): number {
+    const cube: [number, number, number] = [nearestCubeLevel(r), nearestCubeLevel(g), nearestCubeLevel(b)];
+    const cubeIndex = 16 + 36 * cube[0] + 6 * cube[1] + cube[2];
+    const cubeColor: Color = [CUBE_LEVELS[cube[0]], CUBE_LEVELS[cube[1]], CUBE_LEVELS[cube[2]]];
+
+    const gray = Math.max(0, Math.min(23, Math.round(((r + g + b) / 3 - 8) / 10)));
+    const grayValue = 8 + gray * 10;
+
+    const target: Color = [r, g, b];
+    if (distance(target, [grayValue, grayValue, grayValue]) < distance(target, cubeColor)) {
+        return 232 + gray;
+    }
+    return cubeIndex;
+}
+
+// Nearest of the 16 ANSI colors, 0-7 normal and 8-15 bright
+export function rgbToAnsi16(r: number, g: number, b: number): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < ANSI_COLORS.length; i++) {
+        const d = distance([r, g, b], ANSI_COLORS[i]);
+        if (d < bestDistance) {
+            best = i;
+            bestDistance = d;
+        }
+    }
+    return best;
+}
+
+// RGB value of an xterm 256-color palette entry
+export function ansi256ToRgb(index: number): Color {
+    if (index < 16) {
+        return [...ANSI_COLORS[index]];
+    }
+    if (index < 232) {
+        const i = index - 16;
+        return [CUBE_LEVELS[Math.floor(i / 36)], CUBE_LEVELS[Math.floor(i / 6) % 6], CUBE_LEVELS[i % 6]];
+    }
+    const value = 8 + (index - 232) * 10;
+    return [value, value, value];
+}
+
+/**
+ * SGR parameters selecting the color at the given depth, e.g. "38;5;196" or "91".
+ * Returns null in monochrome mode.
+ */
+export function colorParameters(
+    r: number,
+    g: number,
+    b: number,
+    depth: ColorDepth,
+    layer: "foreground" | "background" | "underline"
+): string | null {
+    const background = layer === "background";
+    const extended = layer === "underline" ? 58 : background ? 48 : 38;
+    switch (depth) {
+        case "truecolor":
+            return `${extended};2;${r};${g};${b}`;
+        case "256":
+            return `${extended};5;${rgbToAnsi256(r, g, b)}`;
+        case "16": {
+            const index = rgbToAnsi16(r, g, b);
+            if (layer === "underline") {
+                return `58;5;${index}`; // There is no short code for underline colors
+            }
+            const base = index < 8 ? (background ? 40 : 30) : (background ? 100 : 90);
+            return String(base + (index % 8));
+        }
+        case "none":
+            return null;
+    }
+}
@@ -2,144 +2,622 @@
 // This module defines the basic visual components that can be used in the scene graph.
 
 import { Node } from "./node.ts";
-import { KittyUtil } from "./kitty.ts"; // Assuming KittyUtil is in kitty.ts
+import { CellBuffer, ImagePlacement, Rect } from "./cell_buffer.ts";
 import { FocusableComponent } from "./input_components.ts";
+import { DIM, TextStyle, styleToAttrs } from "./text_style.ts";
+import { WrapMode, stringWidth, truncateToWidth, wrapText } from "./text_width.ts";
+import { BORDER_CHARS, BorderStyle, mergeBoxChars } from "./box_drawing.ts";
+import {
+    Animation,
+    AnimationFrame,
+    AnimationPlayback,
+    ImageSource,
+    ObjectFit,
+    fitImage,
+    imagePixelSize
+} from "./image_data.ts";
+import { idToColor, placeholderCell } from "./unicode_placeholder.ts";
 
 // Define types for clarity
 type Size = [number, number]; // [width, height]
 type Position = [number, number]; // [x, y]
 type Color = [number, number, number]; // [r, g, b]
 
+export interface BorderOptions {
+    style?: BorderStyle; // "single" by default
+    colors?: { top?: Color; right?: Color; bottom?: Color; left?: Color }; // Default to the rectangle's color
+    title?: string; // Label on the top edge
+    footer?: string; // Label on the bottom edge
+    titleAlign?: TextAlign; // "left" by default
+    footerAlign?: TextAlign; // "left" by default
+}
+
 export class Rectangle extends Node {
-    size: Size;
-    color: Color;
-    fill: boolean;
+    private _size: Size;
+    private _color: Color;
+    private _fill: boolean;
+    private _border: BorderOptions | undefined;
+    private _preserveAspect: boolean;
 
+    // Outlined rectangles (fill = false) always get a border, filled ones only when
+    // border options are given. Corners take the color of the top or bottom edge.
     constructor(
         size: Size,
         color: Color = [255, 255, 255],
         fill: boolean = true,
-        position: Position = [0, 0]
+        position: Position = [0, 0],
+        border: BorderOptions | undefined = undefined
     ) {
         super(position);
-        this.size = size;
-        this.color = color;
-        this.fill = fill;
+        this._size = size;
+        this._color = color;
+        this._fill = fill;
+        this._border = border;
+        this._preserveAspect = false;
     }
 
-    render(kittyUtil: KittyUtil): void {
-        const [x, y] = this.absolutePosition;
-        const [width, height] = this.size;
-        const [r, g, b] = this.color;
+    get size(): Size {
+        return this._size;
+    }
 
-        // Move to the starting position
-        kittyUtil.moveCursor(y + 1, x + 1); // +1 because terminal is 1-indexed
+    set size(value: Size) {
+        this._size = value;
+        this.markDirty();
+    }
+
+    get color(): Color {
+        return this._color;
+    }
+
+    set color(value: Color) {
+        this._color = value;
+        this.markDirty();
+    }
+
+    get fill(): boolean {
+        return this._fill;
+    }
+
+    set fill(value: boolean) {
+        this._fill = value;
+        this.markDirty();
+    }
+
+    get border(): BorderOptions | undefined {
+        return this._border;
+    }
+
+    set border(value: BorderOptions | undefined) {
+        this._border = value;
+        this.markDirty();
+    }
+
+    // Off by default: size is in cells like everywhere else. When on, the width is
+    // measured in row heights instead, so [5, 5] looks square whatever the cell shape.
+    get preserveAspect(): boolean {
+        return this._preserveAspect;
+    }
+
+    set preserveAspect(value: boolean) {
+        this._preserveAspect = value;
+        this.markDirty();
+    }
+
+    // Width in columns, after aspect correction
+    private _columns(buffer: CellBuffer): number {
+        return this.preserveAspect ? buffer.squareColumns(this.size[0]) : this.size[0];
+    }
+
+    render(buffer: CellBuffer): void {
+        const [x, y] = this.absolutePosition;
+        const height = this.size[1];
+        const columns = this._columns(buffer);
 
         if (this.fill) {
-            // Filled rectangle
-            for (let row = 0; row < height; row++) {
-                kittyUtil.moveCursor(y + row + 1, x + 1);
-                kittyUtil.setBackgroundColor(r, g, b);
-                // Each character is roughly twice as tall as it is wide,
-                // so we use two spaces per character to get a more square-like appearance
-                kittyUtil.stdout.writeSync(new TextEncoder().encode(" ".repeat(width * 2)));
-                kittyUtil.resetColors();
+            buffer.fillRect(x, y, columns, height, this.color);
+        }
+        if (!this.fill || this.border) {
+            this._drawBorder(buffer, x, y, columns, height);
+        }
+    }
+
+    // Draw the edges only; the inside is left as it is
+    private _drawBorder(buffer: CellBuffer, x: number, y: number, columns: number, height: number): void {
+        if (columns <= 0 || height <= 0) {
+            return;
+        }
+        const border = this.border ?? {};
+        const chars = BORDER_CHARS[border.style ?? "single"];
+        const colors = border.colors ?? {};
+
+        // Lines meeting lines already on screen turn into tees and crosses
+        const put = (col: number, row: number, char: string, color: Color) => {
+            const below = buffer.getCell(col, row)?.char ?? "";
+            buffer.setCell(col, row, mergeBoxChars(below, char), color, undefined, 0, null);
+        };
+
+        const right = x + columns - 1;
+        const bottom = y + height - 1;
+        for (let col = x; col <= right; col++) {
+            const top = col === x ? chars.topLeft : col === right ? chars.topRight : chars.horizontal;
+            put(col, y, top, colors.top ?? this.color);
+            if (height > 1) {
+                const base = col === x ? chars.bottomLeft : col === right ? chars.bottomRight : chars.horizontal;
+                put(col, bottom, base, colors.bottom ?? this.color);
             }
-        } else {
-            // Outlined rectangle
-            kittyUtil.setForegroundColor(r, g, b);
-
-            // Top border
-            kittyUtil.moveCursor(y + 1, x + 1);
-            kittyUtil.stdout.writeSync(new TextEncoder().encode("+" + "-".repeat(width * 2 - 2) + "+"));
-
-            // Side borders
-            for (let row = 1; row < height - 1; row++) {
-                kittyUtil.moveCursor(y + row + 1, x + 1);
-                kittyUtil.stdout.writeSync(new TextEncoder().encode("|" + " ".repeat(width * 2 - 2) + "|"));
+        }
+        for (let row = y + 1; row < bottom; row++) {
+            put(x, row, chars.vertical, colors.left ?? this.color);
+            if (columns > 1) {
+                put(right, row, chars.vertical, colors.right ?? this.color);
             }
+        }
 
-            // Bottom border
-            kittyUtil.moveCursor(y + height, x + 1);
-            kittyUtil.stdout.writeSync(new TextEncoder().encode("+" + "-".repeat(width * 2 - 2) + "+"));
+        if (border.title) {
+            this._drawLabel(buffer, border.title, border.titleAlign, x, y, columns, colors.top ?? this.color);
+        }
+        if (border.footer && height > 1) {
+            this._drawLabel(buffer, border.footer, border.footerAlign, x, bottom, columns, colors.bottom ?? this.color);
+        }
+    }
 
-            kittyUtil.resetColors();
+    // Put a label on a horizontal edge, between the corners and padded with a space on each side
+    private _drawLabel(
+        buffer: CellBuffer,
+        label: string,
+        align: TextAlign = "left",
+        x: number,
+        y: number,
+        columns: number,
+        color: Color
+    ): void {
+        const text = truncateToWidth(` ${label} `, columns - 2, "… ");
+        const width = stringWidth(text);
+        let offset = 1;
+        if (align === "center") {
+            offset = Math.floor((columns - width) / 2);
+        } else if (align === "right") {
+            offset = columns - 1 - width;
         }
+        buffer.writeText(x + offset, y, text, color, undefined, 0, null);
     }
 }
 
+export type TextAlign = "left" | "center" | "right";
+
+// How a Text lays out its lines. Without maxWidth, lines only break at "\n".
+export interface TextLayout {
+    maxWidth?: number; // Columns available; longer lines are wrapped or truncated
+    maxHeight?: number; // Rows available; the last visible line ends with the ellipsis
+    wrap?: WrapMode; // "word" (default), "char", or "none" to truncate instead of wrapping
+    align?: TextAlign; // Within maxWidth, or within the widest line when there is none
+    ellipsis?: string; // Marks truncated text, "…" by default
+}
+
 export class Text extends Node {
-    text: string;
-    color: Color;
+    private _text: string;
+    private _color: Color;
+    private _style: TextStyle;
+    private _layout: TextLayout;
 
     constructor(
         text: string,
         color: Color = [255, 255, 255],
-        position: Position = [0, 0]
+        position: Position = [0, 0],
+        style: TextStyle = {},
+        layout: TextLayout = {}
     ) {
         super(position);
-        this.text = text;
-        this.color = color;
+        this._text = text;
+        this._color = color;
+        this._style = style;
+        this._layout = layout;
+    }
+
+    get text(): string {
+        return this._text;
+    }
+
+    set text(value: string) {
+        this._text = value;
+        this.markDirty();
     }
 
-    render(kittyUtil: KittyUtil): void {
+    get color(): Color {
+        return this._color;
+    }
+
+    set color(value: Color) {
+        this._color = value;
+        this.markDirty();
+    }
+
+    // Bold, italic, underline and so on. Assign a new object to change it.
+    get style(): TextStyle {
+        return this._style;
+    }
+
+    set style(value: TextStyle) {
+        this._style = value;
+        this.markDirty();
+    }
+
+    // Wrapping, alignment and truncation. Assign a new object to change it.
+    get layout(): TextLayout {
+        return this._layout;
+    }
+
+    set layout(value: TextLayout) {
+        this._layout = value;
+        this.markDirty();
+    }
+
+    // The lines as they are drawn, after wrapping and truncation
+    getLines(): string[] {
+        const { maxWidth, maxHeight, wrap = "word", ellipsis = "…" } = this.layout;
+        let lines = wrapText(this.text, maxWidth, wrap);
+        const cut = maxHeight !== undefined && lines.length > maxHeight;
+        if (cut) {
+            lines = lines.slice(0, Math.max(0, maxHeight));
+        }
+
+        return lines.map((line, row) => {
+            if (cut && row === lines.length - 1) {
+                // More text follows: make room for the ellipsis on the last line shown
+                const room = (maxWidth ?? Infinity) - stringWidth(ellipsis);
+                return truncateToWidth(line.trimEnd(), room) + ellipsis;
+            }
+            return maxWidth !== undefined ? truncateToWidth(line, maxWidth, ellipsis) : line;
+        });
+    }
+
+    // Size in cells the text takes up: [widest line, number of lines]
+    get measuredSize(): Size {
+        const lines = this.getLines();
+        return [Math.max(0, ...lines.map((line) => stringWidth(line))), lines.length];
+    }
+
+    render(buffer: CellBuffer): void {
         const [x, y] = this.absolutePosition;
-        const [r, g, b] = this.color;
+        const lines = this.getLines();
+        const widths = lines.map((line) => stringWidth(line));
+        const boxWidth = this.layout.maxWidth ?? Math.max(0, ...widths);
+        const attrs = styleToAttrs(this.style);
+        const underlineColor = this.style.underlineColor ?? null;
+
+        for (let row = 0; row < lines.length; row++) {
+            let offset = 0;
+            if (this.layout.align === "center") {
+                offset = Math.floor((boxWidth - widths[row]) / 2);
+            } else if (this.layout.align === "right") {
+                offset = boxWidth - widths[row];
+            }
+            // Write the text in its color and style, keeping whatever background is underneath
+            buffer.writeText(x + offset, y + row, lines[row], this.color, undefined, attrs, underlineColor);
+        }
+    }
+}
 
-        // Move to the position
-        kittyUtil.moveCursor(y + 1, x + 1); // +1 because terminal is 1-indexed
+// Without graphics, an image's cells are blanked and its alt text is shown dimmed in
+// the middle, e.g. "[logo]". Without a size only the alt text is written.
+function drawImageStandIn(buffer: CellBuffer, x: number, y: number, size: Size | undefined, alt: string): void {
+    const label = `[${alt}]`;
+    if (!size) {
+        buffer.writeText(x, y, label, undefined, undefined, DIM, null);
+        return;
+    }
+    const [width, height] = size;
+    for (let row = 0; row < height; row++) {
+        buffer.writeText(x, y + row, " ".repeat(width));
+    }
+    const text = truncateToWidth(label, width, "…");
+    const offset = Math.floor((width - stringWidth(text)) / 2);
+    buffer.writeText(x + offset, y + Math.floor((height - 1) / 2), text, undefined, undefined, DIM, null);
+}
+
+// With Unicode placeholders an image is made of cells: each names the image in its
+// foreground color and the placement in its underline color.
+function drawPlaceholderCells(
+    buffer: CellBuffer,
+    x: number,
+    y: number,
+    size: Size,
+    imageId: number,
+    placementId: number
+): void {
+    const [width, height] = size;
+    const fg = idToColor(imageId);
+    const underlineColor = idToColor(placementId);
+    for (let row = 0; row < height; row++) {
+        for (let col = 0; col < width; col++) {
+            buffer.setCell(x + col, y + row, placeholderCell(row, col, imageId), fg, null, 0, underlineColor);
+        }
+    }
+}
 
-        // Set the color and write the text
-        kittyUtil.setForegroundColor(r, g, b);
-        kittyUtil.stdout.writeSync(new TextEncoder().encode(this.text));
-        kittyUtil.resetColors();
+// Size of an image in pixels, or null when it can not be shown (a missing file or
+// not an image), so it gets a stand-in instead of failing the whole frame
+function readImageSize(source: ImageSource): Size | null {
+    try {
+        return imagePixelSize(source);
+    } catch (_e) {
+        return null;
     }
 }
 
+// Where an image goes in its box of `size` cells at x, y. The aspect ratio is kept
+// using the cell size in pixels. "none" keeps the image's own pixels, so the terminal
+// is not asked to scale it, except for placeholders which always fill whole cells.
+function fitPlacement(
+    buffer: CellBuffer,
+    imageSize: Size,
+    x: number,
+    y: number,
+    size: Size,
+    objectFit: ObjectFit,
+    placeholders: boolean = false
+): Pick<ImagePlacement, "width" | "height" | "position" | "crop"> {
+    const fit = fitImage(imageSize, size, buffer.pixelsPerCell(), objectFit);
+    const scaled = placeholders || objectFit !== "none";
+    return {
+        width: scaled ? fit.columns : undefined,
+        height: scaled ? fit.rows : undefined,
+        position: [x + fit.offset[0], y + fit.offset[1]],
+        crop: fit.crop
+    };
+}
+
+// An image: a PNG file path, the bytes of a PNG file, or raw pixels. The size is a box
+// of [columns, rows] cells that the image fills according to objectFit; without a size
+// the image is shown at its own size in pixels.
 export class Image extends Node {
-    imageSource: string | Uint8Array | any; // TODO: Define a proper type for Deno Image
-    size: Size | undefined;
+    private _imageSource: ImageSource;
+    private _size: Size | undefined;
+    private _objectFit: ObjectFit;
+    private _alt: string;
+    private _unicodePlaceholders: boolean;
 
     constructor(
-        imageSource: string | Uint8Array | any, // TODO: Define a proper type for Deno Image
+        imageSource: ImageSource,
         size: Size | undefined = undefined,
         position: Position = [0, 0]
     ) {
         super(position);
-        this.imageSource = imageSource;
-        this.size = size;
+        this._imageSource = imageSource;
+        this._size = size;
+        this._objectFit = "contain";
+        this._alt = "image";
+        this._unicodePlaceholders = false;
     }
 
-    async render(kittyUtil: KittyUtil): Promise<void> {
+    // How the image fills its size: "contain" (the default), "cover", "stretch" or "none"
+    get objectFit(): ObjectFit {
+        return this._objectFit;
+    }
+
+    set objectFit(value: ObjectFit) {
+        this._objectFit = value;
+        this.markDirty();
+    }
+
+    // Draw the image as placeholder cells under a virtual placement instead of placing
+    // it over the text. It is then clipped, scrolled and overdrawn like text. Needs a
+    // size and truecolor output; otherwise it is placed as usual.
+    get unicodePlaceholders(): boolean {
+        return this._unicodePlaceholders;
+    }
+
+    set unicodePlaceholders(value: boolean) {
+        this._unicodePlaceholders = value;
+        this.markDirty();
+    }
+
+    // Shown instead of the image when the terminal has no graphics support
+    get alt(): string {
+        return this._alt;
+    }
+
+    set alt(value: string) {
+        this._alt = value;
+        this.markDirty();
+    }
+
+    get imageSource(): ImageSource {
+        return this._imageSource;
+    }
+
+    set imageSource(value: ImageSource) {
+        this._imageSource = value;
+        this.markDirty();
+    }
+
+    get size(): Size | undefined {
+        return this._size;
+    }
+
+    set size(value: Size | undefined) {
+        this._size = value;
+        this.markDirty();
+    }
+
+    render(buffer: CellBuffer): void {
         const [x, y] = this.absolutePosition;
+        const imageSize = readImageSize(this.imageSource);
+        if (!buffer.graphics || !imageSize) {
+            drawImageStandIn(buffer, x, y, this.size, this.alt);
+            return;
+        }
 
-        // If size is provided, unpack it
-        let width: number | undefined = undefined;
-        let height: number | undefined = undefined;
-        if (this.size) {
-            [width, height] = this.size;
-        }
-
-        // Display the image at the calculated position
-        await kittyUtil.displayImage(
-            this.imageSource,
-            width,
-            height,
-            [x, y] // Position in characters, need to convert to pixels if Kitty protocol uses pixels
-            // NOTE: The Python code used character positions for the Image node, but the Kitty protocol
-            // display_image function in the Python code used pixel positions. This needs clarification
-            // or adjustment based on how the Deno KittyUtil handles positioning. Assuming character
-            // positions for now, but this might need revisiting.
-        );
+        if (!this.size) {
+            buffer.addImage({ source: this.imageSource, width: undefined, height: undefined, position: [x, y] });
+            return;
+        }
+
+        const placeholders = this.unicodePlaceholders && buffer.reserveImage !== null;
+        const placement = fitPlacement(buffer, imageSize, x, y, this.size, this.objectFit, placeholders);
+        if (placeholders) {
+            const ids = buffer.reserveImage!(this.imageSource);
+            const [left, top] = placement.position;
+            drawPlaceholderCells(buffer, left, top, [placement.width!, placement.height!], ids.imageId, ids.placementId);
+            buffer.addImage({ source: this.imageSource, ...placement, placeholder: ids });
+            return;
+        }
+
+        // Queue the image; the renderer transmits it after the cells are written
+        buffer.addImage({ source: this.imageSource, ...placement });
+    }
+}
+
+export interface AnimatedImageOptions {
+    loops?: number; // Times to play the animation, 0 (the default) for forever
+    autoplay?: boolean; // Start playing once shown (default true)
+    objectFit?: ObjectFit; // How the frames fill the size, "contain" by default
+}
+
+// An animation needs its first frame for the size and as the image itself
+function checkFrames(frames: AnimationFrame[]): void {
+    if (frames.length === 0) {
+        throw new Error("AnimatedImage needs at least one frame");
+    }
+}
+
+// Frames played by the terminal, so a spinner or preview runs without the scene being
+// re-rendered for every frame. Sizing works like Image; all frames share the size of
+// the first one.
+export class AnimatedImage extends Node {
+    private _animation: Animation;
+    private _size: Size | undefined;
+    private _objectFit: ObjectFit;
+    private _playback: AnimationPlayback;
+    private _alt: string;
+
+    constructor(
+        frames: AnimationFrame[],
+        size: Size | undefined = undefined,
+        position: Position = [0, 0],
+        options: AnimatedImageOptions = {}
+    ) {
+        super(position);
+        checkFrames(frames);
+        this._animation = { frames };
+        this._size = size;
+        this._objectFit = options.objectFit ?? "contain";
+        this._playback = { playing: options.autoplay ?? true, loops: options.loops ?? 0 };
+        this._alt = "animation";
+    }
+
+    get objectFit(): ObjectFit {
+        return this._objectFit;
+    }
+
+    set objectFit(value: ObjectFit) {
+        this._objectFit = value;
+        this.markDirty();
+    }
+
+    // Shown instead of the animation when the terminal has no graphics support
+    get alt(): string {
+        return this._alt;
+    }
+
+    set alt(value: string) {
+        this._alt = value;
+        this.markDirty();
+    }
+
+    get frames(): AnimationFrame[] {
+        return this._animation.frames;
+    }
+
+    // Replacing the frames sends the whole animation again
+    set frames(value: AnimationFrame[]) {
+        checkFrames(value);
+        this._animation = { frames: value };
+        this.markDirty();
+    }
+
+    get size(): Size | undefined {
+        return this._size;
+    }
+
+    set size(value: Size | undefined) {
+        this._size = value;
+        this.markDirty();
+    }
+
+    get playing(): boolean {
+        return this._playback.playing;
+    }
+
+    get loops(): number {
+        return this._playback.loops;
+    }
+
+    set loops(value: number) {
+        this._setPlayback({ ...this._playback, loops: value, frame: undefined });
+    }
+
+    play(): void {
+        this._setPlayback({ ...this._playback, playing: true, frame: undefined });
+    }
+
+    stop(): void {
+        this._setPlayback({ ...this._playback, playing: false, frame: undefined });
+    }
+
+    // Show a frame (1 is the first) and carry on playing from there if playing
+    goToFrame(frame: number): void {
+        this._setPlayback({ ...this._playback, frame });
+    }
+
+    // Every change is a new object, which is how the renderer knows to send it
+    private _setPlayback(playback: AnimationPlayback): void {
+        this._playback = playback;
+        this.markDirty();
+    }
+
+    render(buffer: CellBuffer): void {
+        const [x, y] = this.absolutePosition;
+        const imageSize = readImageSize(this.frames[0].image);
+        if (!buffer.graphics || !imageSize) {
+            drawImageStandIn(buffer, x, y, this.size, this.alt);
+            return;
+        }
+        const placement = this.size
+            ? fitPlacement(buffer, imageSize, x, y, this.size, this.objectFit)
+            : { width: undefined, height: undefined, position: [x, y] as Position };
+        buffer.addImage({ source: this._animation, ...placement, playback: this._playback });
     }
 }
 
 export class Group extends Node {
-    constructor(position: Position = [0, 0]) {
+    private _size: Size | undefined;
+
+    constructor(position: Position = [0, 0], size: Size | undefined = undefined) {
         super(position);
+        this._size = size;
+    }
+
+    // When set, children are clipped to this area
+    get size(): Size | undefined {
+        return this._size;
+    }
+
+    set size(value: Size | undefined) {
+        this._size = value;
+        this.markDirty();
+    }
+
+    override getClipRect(): Rect | null {
+        if (!this.size) {
+            return null;
+        }
+        const [x, y] = this.absolutePosition;
+        const [width, height] = this.size;
+        return { x, y, width, height };
     }
 
-    render(kittyUtil: KittyUtil): void {
+    render(buffer: CellBuffer): void {
         // Group doesn't render anything itself, it just contains other components
     }
 
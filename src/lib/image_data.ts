@@ -0,0 +1,247 @@
+// Image Data module for the Ghostty Graphics Library.
+// This module loads the images shown by Image nodes. PNG files are passed to the
+// terminal as they are (Kitty decodes them itself), so all we need from the file
+// is its size in pixels, which is read from the IHDR chunk without decoding anything.
+// Pixels generated in code can skip PNG encoding and be sent as raw RGB or RGBA,
+// optionally deflated with compressImage() to cut down on the data sent.
+// fitImage() works out how an image fills a box of cells for each objectFit mode.
+
+// Define types for clarity
+type Size = [number, number]; // [width, height]
+type Position = [number, number]; // [x, y]
+
+export type PixelFormat = "rgb" | "rgba";
+
+// Uncompressed pixels, row by row from the top-left, 3 (rgb) or 4 (rgba) bytes each
+export interface RawImage {
+    format: PixelFormat;
+    width: number;
+    height: number;
+    data: Uint8Array;
+    compressed?: boolean; // data is zlib deflated, see compressImage()
+}
+
+// A file path, the bytes of a PNG file, or raw pixels
+export type ImageSource = string | Uint8Array | RawImage;
+
+// One frame of an animation and how long it stays up
+export interface AnimationFrame {
+    image: ImageSource;
+    gap?: number; // Milliseconds before the next frame, 100 by default
+}
+
+// Frames played by the terminal itself. Like raw images, an animation is matched by
+// identity: build a new one instead of changing its frames.
+export interface Animation {
+    frames: AnimationFrame[];
+}
+
+// What the terminal should do with an animation
+export interface AnimationPlayback {
+    playing: boolean;
+    loops: number; // Times to play the animation, 0 for forever
+    frame?: number; // Frame to jump to (1 is the first), undefined to carry on from the current one
+}
+
+export interface ImageData {
+    format: "png" | PixelFormat;
+    data: Uint8Array; // The PNG file or the pixels
+    width: number; // In pixels
+    height: number; // In pixels
+    compressed: boolean;
+}
+
+// How an image fills its box of cells, like CSS object-fit:
+//   contain  scaled to fit inside the box, keeping its aspect ratio, and centered
+//   cover    scaled to fill the box, keeping its aspect ratio; the overflow is cropped
+//   stretch  scaled to the box, ignoring the aspect ratio
+//   none     shown at its own size in pixels, centered and cropped to the box
+export type ObjectFit = "contain" | "cover" | "stretch" | "none";
+
+// A rectangle of an image, in pixels
+export interface PixelRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Where an image goes inside its box
+export interface ImageFit {
+    columns: number; // Cells covered across
+    rows: number; // Cells covered down
+    offset: Position; // From the box's top-left cell to the image's, in cells
+    crop?: PixelRect; // Part of the image shown; all of it when undefined
+}
+
+export class ImageFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ImageFormatError";
+    }
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Reads the size of a PNG image from its IHDR chunk, which the format requires to
+ * come first, right after the signature. Throws ImageFormatError for anything else.
+ */
+export function readPngSize(bytes: Uint8Array): Size {
+    // Signature (8 bytes), then the IHDR chunk: length (4), type (4), width (4), height (4), ...
+    if (bytes.length < 24 || PNG_SIGNATURE.some((byte, i) => bytes[i] !== byte)) {
+        throw new ImageFormatError("Not a PNG image");
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const type = String.fromCharCode(...bytes.subarray(12, 16));
+    if (type !== "IHDR") {
+        throw new ImageFormatError("PNG image does not start with an IHDR chunk");
+    }
+    const width = view.getUint32(16);
+    const height = view.getUint32(20);
+    if (width === 0 || height === 0) {
+        throw new ImageFormatError(`PNG image has an invalid size of ${width}x${height}`);
+    }
+    return [width, height];
+}
+
+// Size of a PNG file, reading only its header
+export function readPngFileSize(path: string): Size {
+    const header = new Uint8Array(24);
+    let read = 0;
+    const file = Deno.openSync(path);
+    try {
+        while (read < header.length) {
+            const n = file.readSync(header.subarray(read));
+            if (n === null) {
+                break;
+            }
+            read += n;
+        }
+    } finally {
+        file.close();
+    }
+    return readPngSize(header.subarray(0, read));
+}
+
+const BYTES_PER_PIXEL: { [format in PixelFormat]: number } = { rgb: 3, rgba: 4 };
+
+// Read the image from disk if needed and check that it is a PNG or well-formed raw pixels
+export function loadImage(source: ImageSource): ImageData {
+    if (typeof source === "string" || source instanceof Uint8Array) {
+        const data = typeof source === "string" ? Deno.readFileSync(source) : source;
+        const [width, height] = readPngSize(data);
+        return { format: "png", data, width, height, compressed: false };
+    }
+
+    const { format, width, height, data } = source;
+    const compressed = source.compressed ?? false;
+    if (!(format in BYTES_PER_PIXEL)) {
+        throw new ImageFormatError(`Unknown pixel format "${format}"`);
+    }
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+        throw new ImageFormatError(`Raw image has an invalid size of ${width}x${height}`);
+    }
+    // Compressed data can only be checked by the terminal
+    const expected = width * height * BYTES_PER_PIXEL[format];
+    if (!compressed && data.length !== expected) {
+        throw new ImageFormatError(
+            `Raw ${format} image of ${width}x${height} needs ${expected} bytes, got ${data.length}`
+        );
+    }
+    return { format, data, width, height, compressed };
+}
+
+/**
+ * Deflates the pixels of a raw image (zlib format, as the terminal expects for o=z).
+ * Worth it for large or flat images such as charts; returns the image unchanged
+ * when it is already compressed.
+ */
+export async function compressImage(image: RawImage): Promise<RawImage> {
+    if (image.compressed) {
+        return image;
+    }
+    // Copied because Blob only takes arrays backed by a plain ArrayBuffer
+    const input = new Blob([new Uint8Array(image.data)]).stream();
+    const stream = input.pipeThrough(new CompressionStream("deflate"));
+    const data = new Uint8Array(await new Response(stream).arrayBuffer());
+    return { ...image, data, compressed: true };
+}
+
+// Sizes of image files already looked at, so layout does not read them every frame.
+// A file rewritten since (a new modification time) is read again.
+const fileSizes = new Map<string, { modified: number | null; size: Size }>();
+
+// Size of an image in pixels. Only the start of a file is read.
+export function imagePixelSize(source: ImageSource): Size {
+    if (source instanceof Uint8Array) {
+        return readPngSize(source);
+    }
+    if (typeof source !== "string") {
+        return [source.width, source.height];
+    }
+    const modified = Deno.statSync(source).mtime?.getTime() ?? null;
+    const cached = fileSizes.get(source);
+    if (cached && modified !== null && cached.modified === modified) {
+        return cached.size;
+    }
+    const size = readPngFileSize(source);
+    fileSizes.set(source, { modified, size });
+    return size;
+}
+
+/**
+ * Fits an image of `imageSize` pixels into a box of `box` cells, each `cellSize`
+ * pixels. The result is snapped to whole cells: the image covers `columns` x `rows`
+ * cells starting `offset` cells into the box, showing the `crop` part of the image.
+ */
+export function fitImage(imageSize: Size, box: Size, cellSize: Size, fit: ObjectFit): ImageFit {
+    const [imageWidth, imageHeight] = imageSize;
+    const [columns, rows] = box;
+    const [cellWidth, cellHeight] = cellSize;
+    const boxWidth = columns * cellWidth;
+    const boxHeight = rows * cellHeight;
+
+    // The middle part of the image that fits into width x height pixels of the box
+    const centerCrop = (width: number, height: number): PixelRect | undefined => {
+        width = Math.min(imageWidth, Math.max(1, Math.round(width)));
+        height = Math.min(imageHeight, Math.max(1, Math.round(height)));
+        if (width === imageWidth && height === imageHeight) {
+            return undefined;
+        }
+        return {
+            x: Math.floor((imageWidth - width) / 2),
+            y: Math.floor((imageHeight - height) / 2),
+            width,
+            height
+        };
+    };
+    // Center a smaller area of cells in the box
+    const centered = (used: Size, crop?: PixelRect): ImageFit => ({
+        columns: used[0],
+        rows: used[1],
+        offset: [Math.floor((columns - used[0]) / 2), Math.floor((rows - used[1]) / 2)],
+        crop
+    });
+
+    switch (fit) {
+        case "stretch":
+            return { columns, rows, offset: [0, 0] };
+        case "cover": {
+            const scale = Math.max(boxWidth / imageWidth, boxHeight / imageHeight);
+            return { columns, rows, offset: [0, 0], crop: centerCrop(boxWidth / scale, boxHeight / scale) };
+        }
+        case "contain": {
+            const scale = Math.min(boxWidth / imageWidth, boxHeight / imageHeight);
+            return centered([
+                Math.min(columns, Math.max(1, Math.round(imageWidth * scale / cellWidth))),
+                Math.min(rows, Math.max(1, Math.round(imageHeight * scale / cellHeight)))
+            ]);
+        }
+        case "none": {
+            const crop = centerCrop(Math.min(imageWidth, boxWidth), Math.min(imageHeight, boxHeight));
+            const [width, height] = crop ? [crop.width, crop.height] : imageSize;
+            return centered([Math.ceil(width / cellWidth), Math.ceil(height / cellHeight)], crop);
+        }
+    }
+}
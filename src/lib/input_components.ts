@@ -5,6 +5,7 @@
 import { Node } from "./node.ts";
 import { Group, Rectangle, Text } from "./components.ts";
 import { KittyUtil } from "./kitty.ts"; // Assuming KittyUtil is in kitty.ts
+import { graphemes, stringWidth, truncateToWidth } from "./text_width.ts";
 
 // Define types for clarity
 type Size = [number, number]; // [width, height]
@@ -26,8 +27,8 @@ export interface FocusableComponent {
 function findScene(node: Node): any | null { // TODO: Define Scene type
     let currentNode: Node | null = node;
     while (currentNode) {
-        // Check if this node is a Scene (assuming Scene has a renderScene method)
-        if (typeof (currentNode as any).renderScene === 'function') {
+        // Check if this node is a Scene (assuming Scene has a requestRender method)
+        if (typeof (currentNode as any).requestRender === 'function') {
             return currentNode;
         }
         // Move up to the parent
@@ -43,7 +44,6 @@ export class Button extends Group implements FocusableComponent {
     focusColor: Color;
     textColor: Color;
     onClick: ClickHandler | undefined;
-    size: Size;
     background: Rectangle;
     text: Text;
     isFocused: boolean;
@@ -72,7 +72,7 @@ export class Button extends Group implements FocusableComponent {
 
         // Calculate size based on text if not provided
         if (size === undefined) {
-            this.size = [text.length + 4, 3]; // Add padding
+            this.size = [stringWidth(text) + 4, 3]; // Add padding
         } else {
             this.size = size;
         }
@@ -86,34 +86,43 @@ export class Button extends Group implements FocusableComponent {
         );
         this.addChild(this.background);
 
-        // Create the button text
-        const textX = Math.max(1, Math.floor((this.size[0] - text.length) / 2));
+        // Create the button text, cut short if the button is too narrow for it
+        const label = truncateToWidth(text, this.size[0] - 2, "…");
+        const textX = Math.max(1, Math.floor((this.size[0] - stringWidth(label)) / 2));
         const textY = Math.floor(this.size[1] / 2);
         this.text = new Text(
-            text,
+            label,
             this.textColor,
             [textX, textY]
         );
         this.addChild(this.text);
     }
 
+    override get size(): Size {
+        return super.size!;
+    }
+
+    override set size(value: Size) {
+        super.size = value;
+    }
+
     onFocus(): void {
         this.isFocused = true;
         this.background.color = this.focusColor;
-        // Trigger a scene re-render if possible
+        // Schedule a scene re-render if possible
         const scene = findScene(this);
         if (scene) {
-            scene.renderScene();
+            scene.requestRender();
         }
     }
 
     onBlur(): void {
         this.isFocused = false;
         this.background.color = this.color;
-        // Trigger a scene re-render if possible
+        // Schedule a scene re-render if possible
         const scene = findScene(this);
         if (scene) {
-            scene.renderScene();
+            scene.requestRender();
         }
     }
 
@@ -121,10 +130,10 @@ export class Button extends Group implements FocusableComponent {
         if (this.isFocused && (key === 'enter' || key === ' ' || key === 'space') && this.onClick) {
             this.onClick();
 
-            // Trigger a scene re-render if possible
+            // Schedule a scene re-render if possible
             const scene = findScene(this);
             if (scene) {
-                scene.renderScene();
+                scene.requestRender();
             }
 
             return true;
@@ -135,13 +144,12 @@ export class Button extends Group implements FocusableComponent {
 
 
 export class TextInput extends Group implements FocusableComponent {
-    size: Size;
     color: Color;
     focusColor: Color;
     textColor: Color;
     placeholder: string;
     value: string;
-    cursorPos: number;
+    cursorPos: number; // In grapheme clusters, not UTF-16 code units
     onChange: ChangeHandler | undefined;
     private keyboardHandlers: { [key: string]: KeyHandler };
     background: Rectangle;
@@ -171,7 +179,7 @@ export class TextInput extends Group implements FocusableComponent {
         this.textColor = textColor;
         this.placeholder = placeholder;
         this.value = value;
-        this.cursorPos = value.length;
+        this.cursorPos = graphemes(value).length;
         this.onChange = onChange;
         this.keyboardHandlers = {};
         this.isFocused = false;
@@ -188,7 +196,7 @@ export class TextInput extends Group implements FocusableComponent {
         // Create the input text
         const textY = Math.floor(this.size[1] / 2);
         this.text = new Text(
-            this.value || this.placeholder,
+            this._visibleText(),
             this.value ? this.textColor : [150, 150, 150], // Dimmer color for placeholder
             [1, textY]
         );
@@ -198,21 +206,29 @@ export class TextInput extends Group implements FocusableComponent {
         this.cursor = new Text(
             "|",
             this.textColor,
-            [1 + this.cursorPos, textY]
+            [1 + this._cursorColumn(), textY]
         );
         this.cursor.visible = false;
         this.addChild(this.cursor);
     }
 
+    override get size(): Size {
+        return super.size!;
+    }
+
+    override set size(value: Size) {
+        super.size = value;
+    }
+
     onFocus(): void {
         this.isFocused = true;
         this.background.color = this.focusColor;
         this.cursor.visible = true;
         this._updateTextDisplay(); // Ensure cursor position is correct on focus
-        // Trigger a scene re-render if possible
+        // Schedule a scene re-render if possible
         const scene = findScene(this);
         if (scene) {
-            scene.renderScene();
+            scene.requestRender();
         }
     }
 
@@ -221,26 +237,37 @@ export class TextInput extends Group implements FocusableComponent {
         this.background.color = this.color;
         this.cursor.visible = false;
         this._updateTextDisplay(); // Hide cursor on blur
-        // Trigger a scene re-render if possible
+        // Schedule a scene re-render if possible
         const scene = findScene(this);
         if (scene) {
-            scene.renderScene();
+            scene.requestRender();
         }
     }
 
+    // Value or placeholder, cut to the width of the field
+    private _visibleText(): string {
+        return truncateToWidth(this.value || this.placeholder, this.size[0] - 2 - this._textOffset(), "…");
+    }
+
+    // The placeholder starts after the cursor so the cursor does not hide its first character
+    private _textOffset(): number {
+        return !this.value && this.isFocused ? 1 : 0;
+    }
+
+    // Screen column of the cursor relative to the start of the text
+    private _cursorColumn(): number {
+        return stringWidth(graphemes(this.value).slice(0, this.cursorPos).join(""));
+    }
+
     private _updateTextDisplay(): void {
         // Update text
-        if (this.value) {
-            this.text.text = this.value;
-            this.text.color = this.textColor;
-        } else {
-            this.text.text = this.placeholder;
-            this.text.color = [150, 150, 150]; // Dimmer color for placeholder
-        }
+        this.text.text = this._visibleText();
+        this.text.color = this.value ? this.textColor : [150, 150, 150]; // Dimmer color for placeholder
 
-        // Update cursor position
+        // Update text and cursor position
         const textY = Math.floor(this.size[1] / 2);
-        this.cursor.position = [1 + this.cursorPos, textY];
+        this.text.position = [1 + this._textOffset(), textY];
+        this.cursor.position = [1 + this._cursorColumn(), textY];
     }
 
     registerKeyboardHandler(key: string, handler: KeyHandler): void {
@@ -255,26 +282,31 @@ export class TextInput extends Group implements FocusableComponent {
         // Check for registered handlers first
         if (this.keyboardHandlers[key]) {
             if (this.keyboardHandlers[key](key)) {
-                 // Trigger a scene re-render if possible if handler handled the key
+                 // Schedule a scene re-render if possible if handler handled the key
                 const scene = findScene(this);
                 if (scene) {
-                    scene.renderScene();
+                    scene.requestRender();
                 }
                 return true;
             }
         }
 
         let handled = false;
+        // Edit by grapheme cluster so an emoji or accented letter is never split
+        const chars = graphemes(this.value);
+        const isCharacter = graphemes(key).length === 1;
 
         if (key === 'backspace') {
             if (this.cursorPos > 0) {
-                this.value = this.value.slice(0, this.cursorPos - 1) + this.value.slice(this.cursorPos);
+                chars.splice(this.cursorPos - 1, 1);
+                this.value = chars.join("");
                 this.cursorPos -= 1;
                 handled = true;
             }
         } else if (key === 'delete') {
-            if (this.cursorPos < this.value.length) {
-                this.value = this.value.slice(0, this.cursorPos) + this.value.slice(this.cursorPos + 1);
+            if (this.cursorPos < chars.length) {
+                chars.splice(this.cursorPos, 1);
+                this.value = chars.join("");
                 handled = true;
             }
         } else if (key === 'left') {
@@ -283,7 +315,7 @@ export class TextInput extends Group implements FocusableComponent {
                 handled = true;
             }
         } else if (key === 'right') {
-            if (this.cursorPos < this.value.length) {
+            if (this.cursorPos < chars.length) {
                 this.cursorPos += 1;
                 handled = true;
             }
@@ -291,12 +323,13 @@ export class TextInput extends Group implements FocusableComponent {
             this.cursorPos = 0;
             handled = true;
         } else if (key === 'end') {
-            this.cursorPos = this.value.length;
+            this.cursorPos = chars.length;
             handled = true;
-        } else if (key.length === 1) { // Single character
+        } else if (isCharacter) { // Single character
             // Check if we have room for more characters (leaving room for cursor and padding)
-            if (this.value.length < this.size[0] - 3) {
-                this.value = this.value.slice(0, this.cursorPos) + key + this.value.slice(this.cursorPos);
+            if (stringWidth(this.value) + stringWidth(key) <= this.size[0] - 3) {
+                chars.splice(this.cursorPos, 0, key);
+                this.value = chars.join("");
                 this.cursorPos += 1;
                 handled = true;
             }
@@ -307,14 +340,14 @@ export class TextInput extends Group implements FocusableComponent {
             this._updateTextDisplay();
 
             // Notify change listeners
-            if (this.onChange && (key === 'backspace' || key === 'delete' || key.length === 1)) {
+            if (this.onChange && (key === 'backspace' || key === 'delete' || isCharacter)) {
                 this.onChange(this.value);
             }
 
-            // Trigger a scene re-render if possible
+            // Schedule a scene re-render if possible
             const scene = findScene(this);
             if (scene) {
-                scene.renderScene();
+                scene.requestRender();
             }
 
             return true;
@@ -326,7 +359,6 @@ export class TextInput extends Group implements FocusableComponent {
 
 
 export class TabContainer extends Group {
-    size: Size;
     tabHeight: number;
     color: Color;
     activeTabColor: Color;
@@ -366,14 +398,22 @@ export class TabContainer extends Group {
         this.addChild(this.background);
 
         // Create the tab bar
-        this.tabBar = new Group([0, 0]);
+        this.tabBar = new Group([0, 0], [size[0], tabHeight]);
         this.addChild(this.tabBar);
 
         // Create the content area
-        this.contentArea = new Group([0, tabHeight]);
+        this.contentArea = new Group([0, tabHeight], [size[0], size[1] - tabHeight]);
         this.addChild(this.contentArea);
     }
 
+    override get size(): Size {
+        return super.size!;
+    }
+
+    override set size(value: Size) {
+        super.size = value;
+    }
+
     addTab(title: string, content: Node): void {
         // Calculate tab width based on number of tabs
         const tabWidth = Math.max(10, Math.min(20, Math.floor(this.size[0] / (this.tabs.length + 1))));
@@ -392,9 +432,10 @@ export class TabContainer extends Group {
         tabButton.addChild(tabBg);
 
         // Tab title
-        const textX = Math.max(1, Math.floor((tabWidth - title.length) / 2));
+        const label = truncateToWidth(title, tabWidth - 2, "…");
+        const textX = Math.max(1, Math.floor((tabWidth - stringWidth(label)) / 2));
         const tabTitle = new Text(
-            title,
+            label,
             [255, 255, 255],
             [textX, Math.floor(this.tabHeight / 2)]
         );
@@ -438,10 +479,10 @@ export class TabContainer extends Group {
             newTab.background.color = this.activeTabColor;
             this.contentArea.addChild(newTab.content);
 
-            // Trigger a scene re-render if possible
+            // Schedule a scene re-render if possible
             const scene = findScene(this);
             if (scene) {
-                scene.renderScene();
+                scene.requestRender();
             }
         }
     }
@@ -8,6 +8,8 @@
 // reading from the readable stream.
 
 import { Node } from "./node.ts"; // Assuming Node is in node.ts
+import { TerminalSession } from "./terminal_session.ts";
+import { acquireRawMode, releaseRawMode } from "./terminal_query.ts";
 
 // Define types for clarity
 type KeyHandler = (key: string) => void;
@@ -37,8 +39,10 @@ export class KeyboardInputHandler {
     public scene: any; // TODO: Define Scene type
     private running: boolean;
     private inputLoopPromise: Promise<void> | null;
-    // Store the options used to set raw mode for restoring
-    private originalRawOptions: Deno.SetRawOptions | undefined = undefined;
+    // Whether start() took a share of raw mode, see acquireRawMode
+    private rawModeAcquired: boolean = false;
+    // Whether start()/stop() switch raw mode; a TerminalSession takes this over
+    public manageRawMode: boolean = true;
 
     constructor(scene: any = null) { // TODO: Define Scene type
         this.scene = scene;
@@ -54,16 +58,15 @@ export class KeyboardInputHandler {
         this.running = true;
 
         // Attempt to set raw mode (requires --allow-read and --allow-write)
-        try {
-            // Store the options used when setting raw mode
-            // Removed 'echo: false' as it's not in SetRawOptions
-            this.originalRawOptions = { cbreak: true };
-            Deno.stdin.setRaw(true, this.originalRawOptions);
-        } catch (e) {
-            console.error("Failed to set raw terminal mode:", e);
-            console.error("Input handling may not work as expected. Consider running with --allow-read --allow-write");
-            // Continue without raw mode, input might be buffered
-            this.originalRawOptions = undefined; // Ensure it's undefined if setting failed
+        // unless whoever owns the terminal (e.g. a TerminalSession) handles it
+        // Raw mode is shared with terminal queries, so it is only left once nobody needs it
+        if (this.manageRawMode) {
+            this.rawModeAcquired = acquireRawMode(Deno.stdin);
+            if (!this.rawModeAcquired) {
+                console.error("Failed to set raw terminal mode.");
+                console.error("Input handling may not work as expected. Consider running with --allow-read --allow-write");
+                // Continue without raw mode, input might be buffered
+            }
         }
 
         this.inputLoopPromise = this._inputLoop();
@@ -72,13 +75,9 @@ export class KeyboardInputHandler {
     async stop(): Promise<void> {
         this.running = false;
         // Restore terminal settings
-        if (this.originalRawOptions) {
-            try {
-                // Pass the stored options when setting raw mode to false
-                Deno.stdin.setRaw(false, this.originalRawOptions);
-            } catch (e) {
-                console.error("Failed to restore terminal mode:", e);
-            }
+        if (this.rawModeAcquired) {
+            releaseRawMode(Deno.stdin);
+            this.rawModeAcquired = false;
         }
         if (this.inputLoopPromise) {
             // Wait for the input loop to finish
@@ -167,6 +166,12 @@ export class InputManager {
         this.keyboardHandler.scene = scene;
     }
 
+    // Let a TerminalSession own raw mode and stop input when the session ends
+    attachSession(session: TerminalSession): void {
+        this.keyboardHandler.manageRawMode = !session.managesRawMode;
+        session.onCleanup(() => this.stop());
+    }
+
     async start(): Promise<void> {
         await this.keyboardHandler.start();
     }
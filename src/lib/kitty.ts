@@ -3,117 +3,594 @@
 
 import { encodeBase64 } from "jsr:@std/encoding@1/base64";
 import { ensureFile } from "jsr:@std/fs@1/ensure-file";
-// import { Image, decode } from "jsr:images"; // Using deno.land/x/images as a PIL alternative - Temporarily commented out due to module not found error
+import { ColorDepth, ColorEnvironment, colorParameters, detectColorDepth } from "./color.ts";
+import { Animation, AnimationPlayback, ImageData, ImageSource, PixelRect, loadImage, readPngFileSize } from "./image_data.ts";
+import { stringWidth } from "./text_width.ts";
+import { BOLD, DIM, ITALIC, REVERSE, STRIKETHROUGH, underlineOf } from "./text_style.ts";
+
+// Define types for clarity
+type Color = [number, number, number]; // [r, g, b]
+
+// Largest base64 payload allowed in a single graphics escape sequence
+const IMAGE_CHUNK_SIZE = 4096;
+
+// Value of the f= key for each kind of image data
+const IMAGE_FORMAT_CODES: { [format in ImageData["format"]]: number } = { rgb: 24, rgba: 32, png: 100 };
+
+// How image data reaches the terminal: inline in the escape sequence (t=d), as the
+// path of a file to read (t=f), as a temporary file the terminal deletes after
+// reading it (t=t), or as a POSIX shared memory object (t=s). Everything but
+// "direct" only works when the terminal runs on this machine.
+export type TransmissionMode = "direct" | "file" | "temp-file" | "shared-memory";
+
+const TRANSMISSION_CODES: { [mode in TransmissionMode]: string } = {
+    direct: "d",
+    file: "f",
+    "temp-file": "t",
+    "shared-memory": "s"
+};
+
+// Terminals only read temporary files whose name contains this
+const TEMP_FILE_PREFIX = "tty-graphics-protocol-";
+
+// Below this many bytes, writing a file costs more than sending the data inline
+const INLINE_IMAGE_LIMIT = 16 * 1024;
+
+// Whether the terminal runs on this machine, i.e. we are not in an SSH session
+export function isLocalTerminal(env: ColorEnvironment = Deno.env): boolean {
+    try {
+        return !env.get("SSH_CONNECTION") && !env.get("SSH_CLIENT") && !env.get("SSH_TTY");
+    } catch (_e) {
+        return false; // No permission to read the environment, play it safe
+    }
+}
+
+function isAnimation(source: ImageSource | Animation): source is Animation {
+    return typeof source === "object" && "frames" in source;
+}
+
+// POSIX shared memory can be written as plain files where /dev/shm exists (Linux)
+function hasSharedMemoryDirectory(): boolean {
+    try {
+        return Deno.statSync("/dev/shm").isDirectory;
+    } catch (_e) {
+        return false;
+    }
+}
+
+// Source rectangle keys of a placement
+function cropKeys(crop: PixelRect | undefined): string[] {
+    return crop ? [`x=${crop.x}`, `y=${crop.y}`, `w=${crop.width}`, `h=${crop.height}`] : [];
+}
+
+// An image the terminal holds, and the placements showing it
+interface TransmittedImage {
+    id: number;
+    source: ImageSource | Animation;
+    placements: Set<number>;
+    nextPlacementId: number;
+    frames: number; // 1 for still images
+    transmitted: boolean; // False while the id is only reserved, see reserveImageId
+}
+
+// Frames stay up this long unless they say otherwise
+const DEFAULT_FRAME_GAP = 100;
+
+// Ids of one placement of an image, needed to move or delete it
+export interface PlacedImage {
+    imageId: number;
+    placementId: number;
+}
+
+// Matches control characters whose effect on the cursor we do not track
+// (C0, DEL and C1, by Unicode category so the pattern holds no control characters)
+const CONTROL_CHARS = /\p{Cc}/u;
 
 export class KittyUtil {
     // Changed to public to allow components to write directly
     // Using Deno.WriterSync as writeSync is used
     public stdout: { writeSync(p: Uint8Array): number };
 
-    constructor(stdout: { writeSync(p: Uint8Array): number } = Deno.stdout) {
+    // How colors are sent: 24-bit, mapped to a palette, or left out entirely
+    public colorDepth: ColorDepth;
+
+    // How image data is sent. "auto" picks the fastest mode for each image when the
+    // terminal is local and falls back to direct otherwise.
+    public imageTransmission: TransmissionMode | "auto";
+
+    // Output is collected here and written with a single syscall in flush()
+    private chunks: string[];
+
+    // Terminal state as of the end of the pending output, used to skip redundant
+    // sequences. undefined means unknown, null means the terminal default.
+    private cursor: [number, number] | undefined; // [row, col], 1-indexed
+    private foreground: string | null | undefined;
+    private background: string | null | undefined;
+    private attributes: number | undefined; // Text attribute bitmask, see text_style.ts
+    private underlineColor: string | null | undefined;
+
+    // Images transmitted to the terminal, by image id (i=) and by source. A source is
+    // matched by path or by the identity of its bytes, so replace a Uint8Array rather
+    // than changing it in place.
+    private images: Map<number, TransmittedImage>;
+    private imageIds: Map<ImageSource | Animation, number>;
+    private nextImageId: number;
+    private localTerminal: boolean | undefined; // Checked the first time "auto" needs it
+
+    // The color depth is detected from the environment when writing to stdout.
+    // Other outputs are not the terminal the environment describes: they get truecolor,
+    // and images are sent inline.
+    constructor(
+        stdout: { writeSync(p: Uint8Array): number } = Deno.stdout,
+        colorDepth: ColorDepth | undefined = undefined,
+        imageTransmission: TransmissionMode | "auto" | undefined = undefined
+    ) {
         this.stdout = stdout;
+        this.colorDepth = colorDepth ?? (stdout === Deno.stdout ? detectColorDepth() : "truecolor");
+        this.imageTransmission = imageTransmission ?? (stdout === Deno.stdout ? "auto" : "direct");
+        this.chunks = [];
+        this.cursor = undefined;
+        this.foreground = undefined;
+        this.background = undefined;
+        this.attributes = undefined;
+        this.underlineColor = undefined;
+        this.images = new Map();
+        this.imageIds = new Map();
+        this.nextImageId = 1;
+        this.localTerminal = undefined;
     }
 
     clearScreen(): void {
-        this.stdout.writeSync(new TextEncoder().encode("\x1b[2J\x1b[H"));
+        this.chunks.push("\x1b[2J\x1b[H");
+        this.cursor = [1, 1];
     }
 
     moveCursor(row: number, col: number): void {
-        this.stdout.writeSync(new TextEncoder().encode(`\x1b[${row};${col}H`));
+        if (this.cursor && this.cursor[0] === row && this.cursor[1] === col) {
+            return;
+        }
+        this.chunks.push(`\x1b[${row};${col}H`);
+        this.cursor = [row, col];
     }
 
+    // Colors are converted to the color depth first, so RGB values that map to the
+    // same palette entry do not produce redundant sequences
     setForegroundColor(r: number, g: number, b: number): void {
-        this.stdout.writeSync(new TextEncoder().encode(`\x1b[38;2;${r};${g};${b}m`));
+        const color = colorParameters(r, g, b, this.colorDepth, "foreground");
+        if (color === null || this.foreground === color) {
+            return;
+        }
+        this.chunks.push(`\x1b[${color}m`);
+        this.foreground = color;
     }
 
     setBackgroundColor(r: number, g: number, b: number): void {
-        this.stdout.writeSync(new TextEncoder().encode(`\x1b[48;2;${r};${g};${b}m`));
+        const color = colorParameters(r, g, b, this.colorDepth, "background");
+        if (color === null || this.background === color) {
+            return;
+        }
+        this.chunks.push(`\x1b[${color}m`);
+        this.background = color;
     }
 
-    resetColors(): void {
-        this.stdout.writeSync(new TextEncoder().encode("\x1b[0m"));
+    resetForegroundColor(): void {
+        if (this.foreground === null || this.colorDepth === "none") {
+            return;
+        }
+        this.chunks.push("\x1b[39m");
+        this.foreground = null;
     }
 
-    formatImageCode(
-        imageDataBase64: string,
-        width: number,
-        height: number,
-        position?: [number, number]
-    ): string {
-        // Base parameters
-        const params = [
-            "f=100",  // Format: PNG
-            `s=${width}`,  // Width
-            `v=${height}`,  // Height
-            "a=T",  // Transmit data
-            "t=d",  // Direct (base64 encoded)
-            "m=0"   // No more data follows
+    resetBackgroundColor(): void {
+        if (this.background === null || this.colorDepth === "none") {
+            return;
+        }
+        this.chunks.push("\x1b[49m");
+        this.background = null;
+    }
+
+    // Set bold, dim, italic, reverse, strikethrough and the underline style from a cell
+    // attribute bitmask. Only the attributes that differ from the current ones are sent.
+    setAttributes(attrs: number, underlineColor: Color | null = null): void {
+        const known = this.attributes !== undefined;
+        let current = this.attributes ?? 0;
+        const params: string[] = [];
+
+        // Bold and dim are both turned off by SGR 22
+        const weight = BOLD | DIM;
+        if (!known || (current & weight & ~attrs) !== 0) {
+            params.push("22");
+            current &= ~weight;
+        }
+        const flags: [number, string, string][] = [
+            [BOLD, "1", ""],
+            [DIM, "2", ""],
+            [ITALIC, "3", "23"],
+            [REVERSE, "7", "27"],
+            [STRIKETHROUGH, "9", "29"]
         ];
+        for (const [flag, on, off] of flags) {
+            if ((attrs & flag) && (!known || !(current & flag))) {
+                params.push(on);
+            } else if (!(attrs & flag) && off && (!known || (current & flag))) {
+                params.push(off);
+            }
+        }
 
-        // Add position parameters if provided
-        if (position) {
-            const [x, y] = position;
-            params.push(`x=${x}`);
-            params.push(`y=${y}`);
+        const underline = underlineOf(attrs);
+        if (!known || underline !== underlineOf(current)) {
+            // 4 is understood everywhere, the 4:n styles need a terminal like Kitty
+            params.push(underline === 0 ? "24" : underline === 1 ? "4" : `4:${underline}`);
+        }
+
+        if (this.colorDepth !== "none") {
+            const color = underlineColor
+                ? colorParameters(...underlineColor, this.colorDepth, "underline")
+                : null;
+            if (color !== this.underlineColor) {
+                params.push(color ?? "59");
+                this.underlineColor = color;
+            }
         }
 
-        // Construct the escape sequence
-        return `\x1b_G${params.join(',')};${imageDataBase64}\x1b\\`;
+        if (params.length > 0) {
+            this.chunks.push(`\x1b[${params.join(";")}m`);
+        }
+        this.attributes = attrs;
     }
 
-    async displayImage(
-        imageSource: string | Uint8Array | any, // Deno's Image class or bytes // Temporarily changed type
-        width?: number,
-        height?: number,
-        position?: [number, number]
-    ): Promise<void> {
-        // let image: Image; // Temporarily commented out due to module not found error
-
-        if (typeof imageSource === 'string') {
-            // Assume it's a file path
-            // const fileContent = await Deno.readFile(imageSource); // Commented out
-            // image = await decode(fileContent); // Commented out
-        } else if (imageSource instanceof Uint8Array) {
-            // Raw image bytes
-            // image = await decode(imageSource); // Commented out
-        } else {
-            // Temporarily skip image processing if module is not found
-            console.error("Image module not available, skipping image display.");
+    // Back to the default colors and no text attributes
+    resetColors(): void {
+        // Monochrome output never sets colors, so it only resets attributes it set itself
+        const monochrome = this.colorDepth === "none";
+        const defaultColors = monochrome ||
+            (this.foreground === null && this.background === null && this.underlineColor === null);
+        const defaultAttributes = this.attributes === 0 || (monochrome && this.attributes === undefined);
+        if (defaultColors && defaultAttributes) {
+            return;
+        }
+        this.chunks.push("\x1b[0m");
+        this.foreground = null;
+        this.background = null;
+        this.attributes = 0;
+        this.underlineColor = null;
+    }
+
+    write(text: string): void {
+        if (text.length === 0) {
             return;
-            // throw new Error(`Unsupported image source type: ${typeof imageSource}`);
         }
+        this.chunks.push(text);
+        if (this.cursor && !CONTROL_CHARS.test(text)) {
+            this.cursor = [this.cursor[0], this.cursor[1] + stringWidth(text)];
+        } else {
+            this.cursor = undefined;
+        }
+    }
+
+    // The alternate screen keeps the user's shell contents intact while the UI runs
+    enterAlternateScreen(): void {
+        this.chunks.push("\x1b[?1049h");
+        this.cursor = undefined;
+    }
+
+    exitAlternateScreen(): void {
+        this.chunks.push("\x1b[?1049l");
+        this.cursor = undefined;
+    }
 
-        // Temporarily commented out image processing due to module not found error
-        // // Resize if needed
-        // let finalWidth = width ?? image.width;
-        // let finalHeight = height ?? image.height;
+    hideCursor(): void {
+        this.chunks.push("\x1b[?25l");
+    }
 
-        // if (width !== undefined || height !== undefined) {
-        //      // Calculate the new dimensions while preserving aspect ratio
-        //      const origWidth = image.width;
-        //      const origHeight = image.height;
-        //      if (width === undefined) {
-        //          finalWidth = Math.floor(origWidth * (height! / origHeight));
-        //      } else if (height === undefined) {
-        //          finalHeight = Math.floor(origHeight * (width / origWidth));
-        //      }
+    showCursor(): void {
+        this.chunks.push("\x1b[?25h");
+    }
 
-        //      image = image.resize(finalWidth, finalHeight);
-        // }
+    // Synchronized output (DEC private mode 2026): the terminal holds back drawing
+    // until the matching end, so a frame never shows up half-drawn
+    beginSynchronizedUpdate(): void {
+        this.chunks.push("\x1b[?2026h");
+    }
 
+    endSynchronizedUpdate(): void {
+        this.chunks.push("\x1b[?2026l");
+    }
 
-        // // Convert to PNG and encode as base64
-        // const pngBytes = await image.encode(Image.Format.PNG);
-        const imageDataBase64 = encodeBase64(new Uint8Array()); // Use encodeBase64 with empty data for now
-        let finalWidth = width ?? 0; // Dummy data
-        let finalHeight = height ?? 0; // Dummy data
+    // Forget the tracked terminal state, e.g. after something else wrote to the terminal
+    invalidateState(): void {
+        this.cursor = undefined;
+        this.foreground = undefined;
+        this.background = undefined;
+        this.attributes = undefined;
+        this.underlineColor = undefined;
+    }
 
-        // Generate and write the escape sequence
-        const escapeSequence = this.formatImageCode(imageDataBase64, finalWidth, finalHeight, position);
-        this.stdout.writeSync(new TextEncoder().encode(escapeSequence));
+    // Build the escape sequences that transmit a payload with the given keys.
+    // The base64 data is sent in chunks of at most 4096 bytes: the first chunk carries
+    // the keys, the others only m=, and m=1 means more chunks follow.
+    formatImageCode(imageDataBase64: string, keys: string[]): string {
+        const sequences: string[] = [];
+        let offset = 0;
+        do {
+            const chunk = imageDataBase64.slice(offset, offset + IMAGE_CHUNK_SIZE);
+            offset += IMAGE_CHUNK_SIZE;
+            const more = offset < imageDataBase64.length ? 1 : 0;
+            const params = sequences.length === 0 ? [...keys, `m=${more}`] : [`m=${more}`];
+            sequences.push(`\x1b_G${params.join(",")};${chunk}\x1b\\`);
+        } while (offset < imageDataBase64.length);
+        return sequences.join("");
     }
 
+    // Send an image to the terminal without showing it, unless it was sent before.
+    // An animation is sent as its first frame followed by the others, stopped.
+    // Returns the image id to place it with.
+    transmitImage(imageSource: ImageSource | Animation): number {
+        const id = this.reserveImageId(imageSource);
+        const image = this.images.get(id)!;
+        if (image.transmitted) {
+            return id;
+        }
+        const frames = isAnimation(imageSource) ? imageSource.frames : [{ image: imageSource }];
+        if (frames.length === 0) {
+            throw new Error("Animation has no frames");
+        }
+        this._sendImageData("t", [`i=${id}`], frames[0].image); // Transmit only
+        image.transmitted = true;
+
+        if (isAnimation(imageSource)) {
+            // The first frame is the image itself, its gap is set separately
+            this.chunks.push(`\x1b_Ga=a,i=${id},r=1,z=${frames[0].gap ?? DEFAULT_FRAME_GAP},q=2\x1b\\`);
+            for (const frame of frames.slice(1)) {
+                this.addAnimationFrame(id, frame.image, frame.gap);
+            }
+        }
+        return id;
+    }
+
+    // Id the image will be transmitted with, for output that names the image before
+    // sending it (Unicode placeholder cells). Nothing is sent; transmitImage uses this id.
+    reserveImageId(imageSource: ImageSource | Animation): number {
+        const known = this.imageIds.get(imageSource);
+        if (known !== undefined) {
+            return known;
+        }
+        const id = this.nextImageId++;
+        this.images.set(id, {
+            id,
+            source: imageSource,
+            placements: new Set(),
+            nextPlacementId: 1,
+            frames: 1,
+            transmitted: false
+        });
+        this.imageIds.set(imageSource, id);
+        return id;
+    }
+
+    // A placement id that no other placement of the image uses, for placeVirtualImage
+    reservePlacementId(imageId: number): number {
+        const image = this.images.get(imageId);
+        if (!image) {
+            throw new Error(`Image ${imageId} has not been reserved or transmitted`);
+        }
+        return image.nextPlacementId++;
+    }
+
+    // Append a frame to a transmitted image, turning it into an animation.
+    // Returns the number of the new frame (the image itself is frame 1).
+    addAnimationFrame(imageId: number, imageSource: ImageSource, gap: number = DEFAULT_FRAME_GAP): number {
+        const image = this.images.get(imageId);
+        if (!image?.transmitted) {
+            throw new Error(`Image ${imageId} has not been transmitted`);
+        }
+        this._sendImageData("f", [`i=${imageId}`, `z=${gap}`], imageSource);
+        return ++image.frames;
+    }
+
+    // Start, stop or rewind an animation
+    controlAnimation(imageId: number, playback: AnimationPlayback): void {
+        const keys = [
+            "a=a",
+            `i=${imageId}`,
+            `s=${playback.playing ? 3 : 1}`, // 3 runs the animation, looping; 1 stops it
+            `v=${playback.loops === 0 ? 1 : playback.loops + 1}` // 1 is forever, n plays n - 1 loops
+        ];
+        if (playback.frame !== undefined) {
+            keys.push(`c=${playback.frame}`);
+        }
+        keys.push("q=2");
+        this.chunks.push(`\x1b_G${keys.join(",")}\x1b\\`);
+    }
+
+    // Send the pixels of one image or frame with a transmit (t) or frame (f) command
+    private _sendImageData(action: "t" | "f", ids: string[], imageSource: ImageSource): void {
+        const [mode, payload, image] = this._imagePayload(imageSource);
+        const keys = [
+            `a=${action}`,
+            `f=${IMAGE_FORMAT_CODES[image.format]}`,
+            `t=${TRANSMISSION_CODES[mode]}`,
+            ...ids
+        ];
+        if (image.format !== "png") {
+            keys.push(`s=${image.width}`, `v=${image.height}`); // Raw pixels do not say how big they are
+        }
+        if (image.compressed) {
+            keys.push("o=z");
+        }
+        keys.push("q=2"); // No replies, they would show up as input
+        this.chunks.push(this.formatImageCode(payload, keys));
+    }
+
+    // dataLength is the size of the loaded image; file paths are sent before loading anything
+    private _transmissionMode(imageSource: ImageSource, dataLength: number = 0): TransmissionMode {
+        const mode = this.imageTransmission;
+        if (mode !== "auto") {
+            return mode === "file" && typeof imageSource !== "string" ? "direct" : mode;
+        }
+        this.localTerminal ??= isLocalTerminal();
+        if (!this.localTerminal) {
+            return "direct";
+        }
+        if (typeof imageSource === "string") {
+            return "file"; // Already on disk
+        }
+        if (dataLength < INLINE_IMAGE_LIMIT) {
+            return "direct";
+        }
+        return hasSharedMemoryDirectory() ? "shared-memory" : "temp-file";
+    }
+
+    // Base64 payload of the transmit command, the mode it was prepared for and the image.
+    // A file sent by path is not read into memory: only its header is checked.
+    // Falls back to direct when the file or shared memory object cannot be written.
+    private _imagePayload(imageSource: ImageSource): [TransmissionMode, string, Omit<ImageData, "data">] {
+        if (typeof imageSource === "string" && this._transmissionMode(imageSource) === "file") {
+            const path = Deno.realPathSync(imageSource);
+            const [width, height] = readPngFileSize(path);
+            return ["file", encodeBase64(path), { format: "png", width, height, compressed: false }];
+        }
+        const image = loadImage(imageSource);
+        const mode = this._transmissionMode(imageSource, image.data.length);
+        try {
+            if (mode === "temp-file") {
+                const path = Deno.makeTempFileSync({ prefix: TEMP_FILE_PREFIX });
+                Deno.writeFileSync(path, image.data);
+                return [mode, encodeBase64(path), image];
+            }
+            if (mode === "shared-memory") {
+                // On Linux, POSIX shared memory objects are the files in /dev/shm
+                const name = `/${TEMP_FILE_PREFIX}${crypto.randomUUID()}`;
+                Deno.writeFileSync(`/dev/shm${name}`, image.data);
+                return [mode, encodeBase64(name), image];
+            }
+        } catch (_e) {
+            // Not allowed to write files here, send the data inline
+        }
+        return ["direct", encodeBase64(image.data), image];
+    }
+
+    // Show a transmitted image with its top-left corner at a cell position ([x, y], 0-indexed).
+    // With columns and rows, the terminal scales the image to cover that many cells;
+    // otherwise it is shown at its own size in pixels. With crop, only that part of the
+    // image is shown (and scaled). Passing the id of an existing placement moves it
+    // instead of adding another one. Returns the placement id.
+    placeImage(
+        imageId: number,
+        position?: [number, number],
+        columns?: number,
+        rows?: number,
+        placementId?: number,
+        crop?: PixelRect
+    ): number {
+        const image = this.images.get(imageId);
+        if (!image?.transmitted) {
+            throw new Error(`Image ${imageId} has not been transmitted`);
+        }
+        const id = placementId ?? image.nextPlacementId++;
+        const keys = [
+            "a=p",
+            `i=${imageId}`,
+            `p=${id}`,
+            "C=1", // Leave the cursor where it is
+            "q=2"
+        ];
+        if (columns !== undefined) {
+            keys.push(`c=${columns}`);
+        }
+        if (rows !== undefined) {
+            keys.push(`r=${rows}`);
+        }
+        keys.push(...cropKeys(crop));
+
+        // Images are placed at the cursor
+        if (position) {
+            this.moveCursor(position[1] + 1, position[0] + 1);
+        }
+        this.chunks.push(`\x1b_G${keys.join(",")}\x1b\\`);
+        image.placements.add(id);
+        return id;
+    }
+
+    // Create a virtual placement (U=1) of columns x rows cells. Nothing is drawn: the
+    // image shows up in cells holding Unicode placeholders for it (see
+    // unicode_placeholder.ts), wherever those are. Placing again with the same
+    // placement id resizes it. Returns the placement id.
+    placeVirtualImage(
+        imageId: number,
+        columns: number,
+        rows: number,
+        placementId?: number,
+        crop?: PixelRect
+    ): number {
+        const image = this.images.get(imageId);
+        if (!image?.transmitted) {
+            throw new Error(`Image ${imageId} has not been transmitted`);
+        }
+        const id = placementId ?? image.nextPlacementId++;
+        const keys = ["a=p", "U=1", `i=${imageId}`, `p=${id}`, `c=${columns}`, `r=${rows}`, ...cropKeys(crop), "q=2"];
+        this.chunks.push(`\x1b_G${keys.join(",")}\x1b\\`);
+        image.placements.add(id);
+        return id;
+    }
+
+    // Remove one placement. The image data is freed along with its last placement.
+    deletePlacement(imageId: number, placementId: number): void {
+        const image = this.images.get(imageId);
+        if (!image || !image.placements.delete(placementId)) {
+            return;
+        }
+        if (image.placements.size === 0) {
+            this.deleteImage(imageId);
+            return;
+        }
+        this.chunks.push(`\x1b_Ga=d,d=i,i=${imageId},p=${placementId},q=2\x1b\\`);
+    }
+
+    // Remove every placement of an image and free its data in the terminal
+    deleteImage(imageId: number): void {
+        const image = this.images.get(imageId);
+        if (!image) {
+            return;
+        }
+        if (image.transmitted) {
+            this.chunks.push(`\x1b_Ga=d,d=I,i=${imageId},q=2\x1b\\`);
+        }
+        this.images.delete(imageId);
+        this.imageIds.delete(image.source);
+    }
+
+    // Free every image this KittyUtil transmitted, e.g. before handing the terminal back
+    deleteAllImages(): void {
+        for (const id of [...this.images.keys()]) {
+            this.deleteImage(id);
+        }
+    }
+
+    // Transmit an image if needed and place it. See placeImage for the arguments.
+    displayImage(
+        imageSource: ImageSource,
+        columns?: number,
+        rows?: number,
+        position?: [number, number]
+    ): PlacedImage {
+        const imageId = this.transmitImage(imageSource);
+        const placementId = this.placeImage(imageId, position, columns, rows);
+        return { imageId, placementId };
+    }
+
+    // Write everything collected since the last flush with a single syscall
     flush(): void {
-        // Deno.stdout is automatically flushed
+        if (this.chunks.length === 0) {
+            return;
+        }
+        const data = new TextEncoder().encode(this.chunks.join(""));
+        this.chunks = [];
+
+        // writeSync may write fewer bytes than requested, keep going until everything is out
+        let offset = 0;
+        while (offset < data.length) {
+            offset += this.stdout.writeSync(data.subarray(offset));
+        }
     }
 }
\ No newline at end of file
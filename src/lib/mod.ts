@@ -3,11 +3,54 @@ console.log("Ghostty Graphics UI Library");
 
 // Re-export components from their respective modules
 export { Node } from "./node.ts";
-export { Rectangle, Text, Group } from "./components.ts";
+export { Rectangle, Text, Image, AnimatedImage, Group } from "./components.ts";
+export type { TextAlign, TextLayout, BorderOptions, AnimatedImageOptions } from "./components.ts";
+export { BORDER_CHARS, mergeBoxChars } from "./box_drawing.ts";
+export type { BorderStyle, BorderChars } from "./box_drawing.ts";
+export { RichText, parseMarkup, escapeMarkup, parseColor } from "./rich_text.ts";
+export type { Span } from "./rich_text.ts";
 export { Button, TextInput, TabContainer } from "./input_components.ts";
 export type { FocusableComponent } from "./input_components.ts";
-export { Scene } from "./scene.ts";
+export { Scene, Layer } from "./scene.ts";
 export { InputManager } from "./input_handler.ts";
-export { KittyUtil } from "./kitty.ts";
+export { KittyUtil, isLocalTerminal } from "./kitty.ts";
+export type { PlacedImage, TransmissionMode } from "./kitty.ts";
+export { detectColorDepth, rgbToAnsi256, rgbToAnsi16 } from "./color.ts";
+export type { ColorDepth } from "./color.ts";
+export { graphemes, graphemeWidth, stringWidth, truncateToWidth, wrapText } from "./text_width.ts";
+export type { WrapMode } from "./text_width.ts";
+export { styleToAttrs, attrsToStyle } from "./text_style.ts";
+export type { TextStyle, UnderlineStyle } from "./text_style.ts";
+export {
+    readPngSize,
+    loadImage,
+    compressImage,
+    imagePixelSize,
+    fitImage,
+    ImageFormatError
+} from "./image_data.ts";
+export { PLACEHOLDER_CHAR, MAX_PLACEHOLDER_CELLS, placeholderCell, idToColor } from "./unicode_placeholder.ts";
+export type {
+    ImageSource,
+    ImageData,
+    RawImage,
+    PixelFormat,
+    Animation,
+    AnimationFrame,
+    AnimationPlayback,
+    ObjectFit,
+    ImageFit,
+    PixelRect
+} from "./image_data.ts";
+export { CellBuffer } from "./cell_buffer.ts";
+export type { Cell } from "./cell_buffer.ts";
+export { queryTerminal, detectSynchronizedOutput, detectCellPixelSize, detectCapabilities } from "./terminal_query.ts";
+export { TerminalSession } from "./terminal_session.ts";
+export type { TerminalSessionOptions } from "./terminal_session.ts";
+export type { QueryOptions, TerminalCapabilities } from "./terminal_query.ts";
+export { VirtualTerminal } from "./virtual_terminal.ts";
+export type { VirtualImage, VirtualImageFrame, VirtualImagePlacement } from "./virtual_terminal.ts";
+export { assertSnapshot, renderSnapshot, serializeSnapshot, SnapshotMismatchError } from "./snapshot.ts";
+export type { SnapshotFormat, SnapshotOptions } from "./snapshot.ts";
 
 // TODO: Implement UI components and rendering logic
\ No newline at end of file
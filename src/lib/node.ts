@@ -1,21 +1,100 @@
 // Node module for the Ghostty Graphics Library.
 // This module defines the Node class, which is the foundation of the scene graph.
+//
+// Coordinate model: every position and size in the scene graph is measured in
+// terminal cells. x counts columns from the left, y counts rows from the top, and
+// [0, 0] is the top-left cell of the screen. A node's position is relative to its
+// parent; absolutePosition is the resulting screen cell. A size of [w, h] covers w
+// columns and h rows, the same area that clipping, damage tracking and hit testing use.
+// Cells are usually about twice as tall as they are wide, so a [4, 4] rectangle looks
+// tall and narrow. Components that want to look square opt in to aspect correction
+// (see Rectangle.preserveAspect), which uses the cell pixel size the terminal reports.
 
 import { FocusableComponent } from "./input_components.ts";
+import { CellBuffer, Rect } from "./cell_buffer.ts";
 
 export abstract class Node {
-    position: [number, number];
+    private _position: [number, number];
     absolutePosition: [number, number]; // Will be recalculated during updateTransform
     parent: Node | null;
     children: Node[];
-    visible: boolean; // Added visible property
+    private _visible: boolean;
+    private _zIndex: number;
+
+    // Dirty tracking, maintained by the node and consumed by the renderer.
+    // Replacing a property marks the node dirty; mutating an array in place
+    // (e.g. `node.position[0] = 5`) is not detected, assign a new array instead.
+    dirty: boolean; // This node changed, its whole subtree must be repainted
+    childDirty: boolean; // Some descendant is dirty or lost a child
+    lastBounds: Rect | null; // Screen region covered by this subtree in the last frame
+    damage: Rect[]; // Regions vacated by children removed since the last frame
 
     constructor(position: [number, number] = [0, 0]) {
-        this.position = position;
+        this._position = position;
         this.absolutePosition = position; // Initial value, will be updated
         this.parent = null;
         this.children = [];
-        this.visible = true; // Nodes are visible by default
+        this._visible = true; // Nodes are visible by default
+        this._zIndex = 0;
+        this.dirty = true; // Never rendered yet
+        this.childDirty = false;
+        this.lastBounds = null;
+        this.damage = [];
+    }
+
+    get position(): [number, number] {
+        return this._position;
+    }
+
+    set position(value: [number, number]) {
+        this._position = value;
+        this.markDirty();
+    }
+
+    get visible(): boolean {
+        return this._visible;
+    }
+
+    set visible(value: boolean) {
+        if (this._visible !== value) {
+            this._visible = value;
+            this.markDirty();
+        }
+    }
+
+    // Stacking order among siblings: higher values are drawn later, on top.
+    // Siblings with the same zIndex keep the order they were added in.
+    get zIndex(): number {
+        return this._zIndex;
+    }
+
+    set zIndex(value: number) {
+        if (this._zIndex !== value) {
+            this._zIndex = value;
+            this.markDirty();
+        }
+    }
+
+    // Children in the order they should be drawn
+    getRenderOrder(): Node[] {
+        if (this.children.every((child) => child.zIndex === 0)) {
+            return this.children;
+        }
+        return [...this.children].sort((a, b) => a.zIndex - b.zIndex); // sort is stable
+    }
+
+    // Flag this node for repainting and let its ancestors know
+    markDirty(): void {
+        this.dirty = true;
+        this.parent?.markChildDirty();
+    }
+
+    protected markChildDirty(): void {
+        if (this.childDirty) {
+            return; // The ancestors have been told already
+        }
+        this.childDirty = true;
+        this.parent?.markChildDirty();
     }
 
     addChild(child: Node): Node {
@@ -25,6 +104,7 @@ export abstract class Node {
 
         child.parent = this;
         this.children.push(child);
+        child.markDirty();
         return child;
     }
 
@@ -33,6 +113,11 @@ export abstract class Node {
         if (index > -1) {
             this.children.splice(index, 1);
             child.parent = null;
+            // The area the child used to cover has to be repainted
+            if (child.lastBounds) {
+                this.damage.push(child.lastBounds);
+                this.markChildDirty();
+            }
             return true;
         }
         return false;
@@ -55,11 +140,18 @@ export abstract class Node {
         }
     }
 
+    // Rectangle, in screen cells, that this node's children may not draw outside of.
+    // null means children are not clipped.
+    getClipRect(): Rect | null {
+        return null;
+    }
+
     // Method to find focusable children recursively
     getTabbableChildren(): FocusableComponent[] {
         // Base implementation returns an empty array
         return [];
     }
 
-    abstract render(kittyUtil: any): void; // TODO: Define KittyUtil type
-}
\ No newline at end of file
+    // Draw this node (not its children) into the renderer's cell buffer
+    abstract render(buffer: CellBuffer): void;
+}
@@ -1,40 +1,495 @@
 // Renderer module for the Ghostty Graphics Library.
 // This module defines the Renderer class, which is responsible for traversing
 // the scene graph and rendering all components.
+// Nodes draw into an in-memory CellBuffer (the back buffer). The renderer then
+// compares it with the previous frame (the front buffer) and only sends escape
+// sequences for the cells that changed. Nodes track their own changes (see Node.markDirty),
+// so after the first frame only dirty subtrees and whatever they overlap are repainted.
 
 import { Node } from "./node.ts";
-import { KittyUtil } from "./kitty.ts";
+import { Animation, ImageSource, PixelRect } from "./image_data.ts";
+import { KittyUtil, PlacedImage } from "./kitty.ts";
+import {
+    QueryOptions,
+    TerminalCapabilities,
+    detectCapabilities,
+    detectCellPixelSize,
+    detectSynchronizedOutput
+} from "./terminal_query.ts";
+import {
+    CellBuffer,
+    ImagePlacement,
+    Rect,
+    blankCell,
+    cellsEqual,
+    rectsIntersect,
+    unionRect
+} from "./cell_buffer.ts";
+
+// Define types for clarity
+type Size = [number, number]; // [width, height]
+
+function sameSize(a: Size | null, b: Size | null): boolean {
+    if (a === null || b === null) {
+        return a === b;
+    }
+    return a[0] === b[0] && a[1] === b[1];
+}
+
+// Virtual placements do not care where their placeholder cells are, only about their ids
+function sameCrop(a: PixelRect | undefined, b: PixelRect | undefined): boolean {
+    if (!a || !b) {
+        return a === b;
+    }
+    return a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+}
+
+function samePlacement(a: ImagePlacement, b: ImagePlacement): boolean {
+    const samePosition = a.placeholder || b.placeholder
+        ? a.placeholder?.placementId === b.placeholder?.placementId
+        : a.position[0] === b.position[0] && a.position[1] === b.position[1];
+    return a.source === b.source &&
+        a.width === b.width &&
+        a.height === b.height &&
+        sameCrop(a.crop, b.crop) &&
+        samePosition;
+}
+
+// Grow a damage rectangle to cover both halves of the wide characters on its edges.
+// Clearing one half blanks the other, which is only drawn again inside the mask.
+function widenToWideChars(rect: Rect, buffer: CellBuffer): Rect {
+    let left = false; // A continuation on the left edge, its lead is outside
+    let right = false; // A continuation just past the right edge, its lead is inside
+    for (let row = rect.y; row < rect.y + rect.height; row++) {
+        left ||= buffer.getCell(rect.x, row)?.char === "";
+        right ||= buffer.getCell(rect.x + rect.width, row)?.char === "";
+    }
+    return {
+        x: left ? rect.x - 1 : rect.x,
+        y: rect.y,
+        width: rect.width + (left ? 1 : 0) + (right ? 1 : 0),
+        height: rect.height
+    };
+}
 
 export class Renderer {
     private rootNode: Node;
     private kittyUtil: KittyUtil;
+    private fixedSize: Size | undefined;
+    private frontBuffer: CellBuffer | null; // What is currently on screen
+    private backBuffer: CellBuffer | null; // What the next frame should look like
+    synchronizedOutput: boolean; // Wrap frames in synchronized-update sequences
+    cellPixelSize: Size | null; // Size of one cell in pixels, for nodes that correct the aspect ratio
+    capabilities: TerminalCapabilities | null; // Result of detectCapabilities(); null assumes Kitty graphics work
+    private placedImages: Map<object, { image: ImagePlacement; ids: PlacedImage }>; // On screen, by owner
+    // Ids handed out for placeholders this frame but not placed yet, by owner. The
+    // damage measurement and the real paint of a frame both draw a node.
+    private reservedImages: Map<object, { source: ImageSource | Animation; ids: PlacedImage }>;
 
-    constructor(rootNode: Node, kittyUtil: KittyUtil | undefined = undefined) {
+    constructor(
+        rootNode: Node,
+        kittyUtil: KittyUtil | undefined = undefined,
+        size: Size | undefined = undefined
+    ) {
         this.rootNode = rootNode;
         this.kittyUtil = kittyUtil || new KittyUtil();
+        this.fixedSize = size;
+        this.frontBuffer = null;
+        this.backBuffer = null;
+        this.synchronizedOutput = false;
+        this.cellPixelSize = null;
+        this.capabilities = null;
+        this.placedImages = new Map();
+        this.reservedImages = new Map();
+    }
+
+    // Ask the terminal whether it supports synchronized output and use it if so.
+    // Falls back to plain frames when the terminal does not answer.
+    async detectSynchronizedOutput(options: QueryOptions = {}): Promise<boolean> {
+        this.kittyUtil.flush(); // Do not interleave the query with pending output
+        this.synchronizedOutput = await detectSynchronizedOutput({
+            output: this.kittyUtil.stdout,
+            ...options
+        });
+        return this.synchronizedOutput;
+    }
+
+    // Ask the terminal for its cell size in pixels. Keeps the previous value
+    // (null, i.e. a typical 1:2 cell, unless set) when the terminal does not answer.
+    async detectCellPixelSize(options: QueryOptions = {}): Promise<Size | null> {
+        this.kittyUtil.flush();
+        const size = await detectCellPixelSize({
+            output: this.kittyUtil.stdout,
+            ...options
+        });
+        if (size) {
+            this.cellPixelSize = size;
+        }
+        return size;
+    }
+
+    // Probe the terminal once and draw accordingly: synchronized frames when supported,
+    // the reported cell size for aspect correction, and stand-ins instead of images
+    // when the Kitty graphics protocol is not available.
+    async detectCapabilities(options: QueryOptions = {}): Promise<TerminalCapabilities> {
+        this.kittyUtil.flush();
+        const capabilities = await detectCapabilities({
+            output: this.kittyUtil.stdout,
+            ...options
+        });
+        this.capabilities = capabilities;
+        this.synchronizedOutput = capabilities.synchronizedOutput;
+        if (capabilities.cellPixelSize) {
+            this.cellPixelSize = capabilities.cellPixelSize;
+        }
+        return capabilities;
+    }
+
+    private get graphics(): boolean {
+        return this.capabilities?.graphics ?? true;
+    }
+
+    private getScreenSize(): Size {
+        if (this.fixedSize) {
+            return this.fixedSize;
+        }
+        try {
+            const { columns, rows } = Deno.consoleSize();
+            return [columns, rows];
+        } catch (_e) {
+            // Default size if unable to determine (e.g. output is not a terminal)
+            return [80, 24];
+        }
+    }
+
+    // Draw through a different KittyUtil, e.g. the one owned by a TerminalSession
+    useKittyUtil(kittyUtil: KittyUtil): void {
+        this.kittyUtil.flush();
+        this.kittyUtil = kittyUtil;
+        this.placedImages.clear(); // The new KittyUtil has its own image ids
+        this.reservedImages.clear();
+        this.invalidate();
+    }
+
+    // Forget what is on screen so the next frame repaints everything
+    invalidate(): void {
+        this.frontBuffer = null;
     }
 
     renderScene(): void {
-        // Clear the screen
-        this.kittyUtil.clearScreen();
+        const [width, height] = this.getScreenSize();
+
+        // A resized screen has to be repainted from scratch
+        if (this.frontBuffer && (this.frontBuffer.width !== width || this.frontBuffer.height !== height)) {
+            this.frontBuffer = null;
+        }
+        // Nodes may draw differently for another cell shape or graphics support, so a change repaints everything
+        if (
+            this.frontBuffer &&
+            (!sameSize(this.frontBuffer.cellPixelSize, this.cellPixelSize) || this.frontBuffer.graphics !== this.graphics)
+        ) {
+            this.frontBuffer = null;
+        }
+
+        // (Re)allocate the back buffer when the screen size changes
+        if (!this.backBuffer || this.backBuffer.width !== width || this.backBuffer.height !== height) {
+            this.backBuffer = new CellBuffer(width, height);
+        }
+        this.backBuffer.cellPixelSize = this.cellPixelSize;
+        this.backBuffer.graphics = this.graphics;
+        // The ids are written into cells as colors, which only survive in truecolor
+        this.backBuffer.reserveImage = this.kittyUtil.colorDepth === "truecolor"
+            ? (source) => this._reserveImage(this.backBuffer!, source)
+            : null;
 
         // Update transforms starting from the root
         this.rootNode.updateTransform();
 
-        // Render the scene graph
-        this._renderNode(this.rootNode);
+        const previous = this.frontBuffer;
+        const next = this.backBuffer;
+        if (previous === null) {
+            // Nothing known about the screen yet: render everything from a clean slate
+            next.clear();
+            this._paintNode(this.rootNode, next, null);
+        } else {
+            // Find the regions that changed since the last frame
+            const collected: Rect[] = [];
+            this._collectDamage(this.rootNode, next, collected);
+            if (collected.length === 0) {
+                return; // Nothing to repaint
+            }
+            const damage = collected.map((rect) => widenToWideChars(rect, previous));
+
+            // Start from what is on screen and repaint only the damaged regions
+            next.copyFrom(previous);
+            next.mask = damage;
+            for (const rect of damage) {
+                next.clearRect(rect);
+            }
+            this._paintNode(this.rootNode, next, damage);
+            next.mask = null;
+            this._pruneImages(next);
+        }
+
+        if (this.synchronizedOutput) {
+            this.kittyUtil.beginSynchronizedUpdate();
+        }
+        if (previous === null) {
+            this.kittyUtil.clearScreen(); // The first frame starts from a blank screen
+        }
+        this._writeChanges(previous, next);
+        this._writeImages(previous === null, next);
+        if (this.synchronizedOutput) {
+            this.kittyUtil.endSynchronizedUpdate();
+        }
 
         // Flush the output
         this.kittyUtil.flush();
+
+        // The back buffer is now on screen; reuse the old front buffer for the next frame
+        this.frontBuffer = next;
+        this.backBuffer = previous;
+    }
+
+    // Walk the dirty parts of the tree and record the screen regions that need repainting:
+    // where dirty subtrees were last frame, where they are now, and what removed children left behind.
+    private _collectDamage(node: Node, buffer: CellBuffer, damage: Rect[]): void {
+        if (!node.dirty && !node.childDirty) {
+            return;
+        }
+
+        damage.push(...node.damage);
+        node.damage = [];
+
+        if (node.dirty) {
+            const lastBounds = node.lastBounds;
+            if (lastBounds) {
+                damage.push(lastBounds);
+            }
+            // Measure where the subtree lands now by rendering it with every write masked out
+            buffer.mask = [];
+            const bounds = this._paintNode(node, buffer, null);
+            buffer.mask = null;
+            if (bounds) {
+                damage.push(bounds);
+            }
+            // Still needs the real repaint, unless it is not on screen before or after
+            node.dirty = lastBounds !== null || bounds !== null;
+            return;
+        }
+
+        if (!node.visible) {
+            this._clearDirty(node); // Changes below a hidden node are not on screen
+            return;
+        }
+
+        for (const child of node.children) {
+            this._collectDamage(child, buffer, damage);
+        }
+        // Nothing left to repaint below when every changed child turned out to be off screen
+        node.childDirty = node.children.some((child) => child.dirty || child.childDirty);
     }
 
-    private _renderNode(node: Node): void {
+    // Render a subtree into the buffer and return the screen region it covers.
+    // With a damage list, subtrees that neither changed nor overlap the damage are skipped.
+    private _paintNode(node: Node, buffer: CellBuffer, damage: Rect[] | null): Rect | null {
+        if (!node.visible) {
+            this._clearDirty(node);
+            node.lastBounds = null;
+            return null;
+        }
+
+        if (
+            damage &&
+            !node.dirty &&
+            !node.childDirty &&
+            !(node.lastBounds && damage.some((rect) => rectsIntersect(rect, node.lastBounds!)))
+        ) {
+            return node.lastBounds;
+        }
+
+        // Everything below a dirty node is repainted, not just what overlaps the damage
+        const childDamage = node.dirty ? null : damage;
+        node.dirty = false;
+        node.childDirty = false;
+        node.damage = [];
+
         // Render the node itself
-        node.render(this.kittyUtil);
+        buffer.touched = null;
+        buffer.owner = node;
+        buffer.images.delete(node);
+        node.render(buffer);
+        buffer.owner = null;
+        let bounds: Rect | null = buffer.touched;
 
-        // Render all children
+        // Render all children, clipped to the node's bounds if it is a container
+        const clip = node.getClipRect();
+        if (clip) {
+            buffer.pushClip(clip);
+        }
+        for (const child of node.getRenderOrder()) {
+            bounds = unionRect(bounds, this._paintNode(child, buffer, childDamage));
+        }
+        if (clip) {
+            buffer.popClip();
+        }
+
+        node.lastBounds = bounds;
+        return bounds;
+    }
+
+    private _clearDirty(node: Node): void {
+        node.dirty = false;
+        node.childDirty = false;
+        node.damage = [];
         for (const child of node.children) {
-            this._renderNode(child);
+            this._clearDirty(child);
+        }
+    }
+
+    // Drop images whose nodes were removed or hidden since the last frame
+    private _pruneImages(buffer: CellBuffer): void {
+        const reachable = new Set<object>();
+        const visit = (node: Node) => {
+            if (!node.visible) {
+                return;
+            }
+            reachable.add(node);
+            for (const child of node.children) {
+                visit(child);
+            }
+        };
+        visit(this.rootNode);
+
+        for (const owner of buffer.images.keys()) {
+            if (!reachable.has(owner)) {
+                buffer.images.delete(owner);
+            }
+        }
+    }
+
+    // Send escape sequences for every cell that differs from the previous frame.
+    // KittyUtil drops cursor moves and color changes that would not change anything,
+    // so runs of changed cells on the same row come out as plain text.
+    private _writeChanges(previous: CellBuffer | null, next: CellBuffer): void {
+        let wrote = false;
+
+        for (let y = 0; y < next.height; y++) {
+            for (let x = 0; x < next.width; x++) {
+                const index = y * next.width + x;
+                const cell = next.cells[index];
+                if (cell.char === "") {
+                    continue; // Second half of a wide character, drawn together with the first
+                }
+                // A wide character is redrawn when either of its halves changed
+                const wide = x + 1 < next.width && next.cells[index + 1].char === "";
+                if (
+                    previous &&
+                    cellsEqual(previous.cells[index], cell) &&
+                    !(wide && !cellsEqual(previous.cells[index + 1], next.cells[index + 1]))
+                ) {
+                    continue;
+                }
+                // A cleared screen is already blank, so blank cells need no output
+                if (!previous && cellsEqual(cell, blankCell())) {
+                    continue;
+                }
+
+                this.kittyUtil.moveCursor(y + 1, x + 1); // +1 because terminal is 1-indexed
+                if (cell.fg) {
+                    this.kittyUtil.setForegroundColor(...cell.fg);
+                } else {
+                    this.kittyUtil.resetForegroundColor();
+                }
+                if (cell.bg) {
+                    this.kittyUtil.setBackgroundColor(...cell.bg);
+                } else {
+                    this.kittyUtil.resetBackgroundColor();
+                }
+                this.kittyUtil.setAttributes(cell.attrs, cell.underlineColor);
+                this.kittyUtil.write(cell.char);
+                wrote = true;
+            }
+        }
+
+        if (wrote) {
+            this.kittyUtil.resetColors();
+        }
+    }
+
+    // Ids for the image the current owner draws with Unicode placeholders. An owner
+    // keeps its ids while it shows the same source, so its cells stay the same.
+    private _reserveImage(buffer: CellBuffer, source: ImageSource | Animation): PlacedImage {
+        const owner = buffer.owner;
+        const placed = owner ? this.placedImages.get(owner) : undefined;
+        if (placed?.image.placeholder && placed.image.source === source) {
+            return placed.ids;
+        }
+        const reserved = owner ? this.reservedImages.get(owner) : undefined;
+        if (reserved?.source === source) {
+            return reserved.ids;
+        }
+        const imageId = this.kittyUtil.reserveImageId(source);
+        const ids = { imageId, placementId: this.kittyUtil.reservePlacementId(imageId) };
+        if (owner) {
+            this.reservedImages.set(owner, { source, ids });
+        }
+        return ids;
+    }
+
+    // Graphics live outside the cell grid. Each image is transmitted once; after that
+    // only placements that are new or moved are sent, and placements of nodes that
+    // left the tree are deleted. A full repaint starts from a cleared screen, which
+    // removed every placement, so all of them are placed again (virtual placements
+    // survive it, but placing them again is harmless).
+    private _writeImages(fullRepaint: boolean, next: CellBuffer): void {
+        const removed: PlacedImage[] = [];
+        for (const [owner, placed] of this.placedImages) {
+            const image = next.images.get(owner);
+            // Switching between direct and virtual placement needs a new placement
+            if (!image || image.source !== placed.image.source || !image.placeholder !== !placed.image.placeholder) {
+                removed.push(placed.ids);
+                this.placedImages.delete(owner);
+            }
+        }
+
+        for (const [owner, image] of next.images) {
+            const placed = this.placedImages.get(owner);
+            if (placed && !fullRepaint && samePlacement(placed.image, image)) {
+                if (image.playback && image.playback !== placed.image.playback) {
+                    this.kittyUtil.controlAnimation(placed.ids.imageId, image.playback);
+                }
+                placed.image = image;
+                continue;
+            }
+            const imageId = this.kittyUtil.transmitImage(image.source);
+            const placementId = image.placeholder
+                ? this.kittyUtil.placeVirtualImage(
+                    imageId,
+                    image.width ?? 1,
+                    image.height ?? 1,
+                    image.placeholder.placementId,
+                    image.crop
+                )
+                : this.kittyUtil.placeImage(
+                    imageId,
+                    image.position,
+                    image.width,
+                    image.height,
+                    placed?.ids.placementId,
+                    image.crop
+                );
+            // Animations are transmitted stopped; the terminal keeps their state across placements
+            if (image.playback && (!placed || placed.image.playback !== image.playback)) {
+                this.kittyUtil.controlAnimation(imageId, image.playback);
+            }
+            this.placedImages.set(owner, { image, ids: { imageId, placementId } });
+        }
+
+        // Deleted last, so an image that is still shown elsewhere is not sent again
+        for (const { imageId, placementId } of removed) {
+            this.kittyUtil.deletePlacement(imageId, placementId);
         }
+        this.reservedImages.clear();
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,271 @@
+// Rich Text module for the Ghostty Graphics Library.
+// This module defines the RichText node, a single line made of styled spans, and a
+// small markup syntax to build the spans from a string:
+//
+//   "[bold red]User1[/]: hello"          bold red "User1", then ": hello" unstyled
+//   "[italic #88c0d0 on black]note[/]"    hex colors and "on" for the background
+//   "\[not a tag]"                        a backslash escapes an opening bracket
+//
+// Tags hold space separated words: text styles (bold, dim, italic, reverse, strike,
+// underline, double-underline, curly-underline, dotted-underline, dashed-underline),
+// a foreground color, "on" followed by a background color, and
+// "underline-color=<color>". Colors are names of the 16 ANSI colors (red,
+// bright_red, ...), #rgb / #rrggbb or rgb(r,g,b). Tags nest; [/] closes the innermost
+// one. Brackets that do not form a valid tag are kept as text.
+
+import { Node } from "./node.ts";
+import { CellBuffer } from "./cell_buffer.ts";
+import { ansi256ToRgb } from "./color.ts";
+import { TextStyle, UnderlineStyle, styleToAttrs } from "./text_style.ts";
+import { stringWidth } from "./text_width.ts";
+
+// Define types for clarity
+type Position = [number, number]; // [x, y]
+type Color = [number, number, number]; // [r, g, b]
+
+export interface Span {
+    text: string;
+    color?: Color; // Defaults to the RichText's color
+    background?: Color; // Defaults to whatever is underneath
+    style?: TextStyle;
+}
+
+// Palette index of each ANSI color name
+const COLOR_NAMES: { [name: string]: number } = {
+    black: 0, red: 1, green: 2, yellow: 3, blue: 4, magenta: 5, cyan: 6, white: 7,
+    bright_black: 8, gray: 8, grey: 8, bright_red: 9, bright_green: 10, bright_yellow: 11,
+    bright_blue: 12, bright_magenta: 13, bright_cyan: 14, bright_white: 15
+};
+
+const STYLE_WORDS: { [word: string]: TextStyle } = {
+    bold: { bold: true },
+    dim: { dim: true },
+    italic: { italic: true },
+    reverse: { reverse: true },
+    strike: { strikethrough: true },
+    strikethrough: { strikethrough: true },
+    underline: { underline: "straight" }
+};
+
+const UNDERLINE_WORDS: UnderlineStyle[] = ["double", "curly", "dotted", "dashed"];
+
+// Parse a color word, or return null if it is not one
+export function parseColor(word: string): Color | null {
+    const name = word.toLowerCase();
+    if (name in COLOR_NAMES) {
+        return ansi256ToRgb(COLOR_NAMES[name]);
+    }
+    let match = name.match(/^#([0-9a-f]{6})$/);
+    if (match) {
+        const value = parseInt(match[1], 16);
+        return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+    }
+    match = name.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/);
+    if (match) {
+        return [parseInt(match[1], 16) * 17, parseInt(match[2], 16) * 17, parseInt(match[3], 16) * 17];
+    }
+    match = name.match(/^rgb\((\d{1,3}),(\d{1,3}),(\d{1,3})\)$/);
+    if (match) {
+        return [Math.min(255, +match[1]), Math.min(255, +match[2]), Math.min(255, +match[3])];
+    }
+    return null;
+}
+
+// Everything a tag can set. Later tags override earlier ones.
+type SpanStyle = Omit<Span, "text">;
+
+// Parse the inside of a tag, or return null if it is not a valid tag
+function parseTag(tag: string): SpanStyle | null {
+    const words = tag.trim().split(/\s+/);
+    if (words.length === 0 || words[0] === "") {
+        return null;
+    }
+    const result: SpanStyle = { style: {} };
+    for (let i = 0; i < words.length; i++) {
+        const word = words[i].toLowerCase();
+        if (STYLE_WORDS[word]) {
+            Object.assign(result.style!, STYLE_WORDS[word]);
+            continue;
+        }
+        const underline = word.match(/^(\w+)-underline$/);
+        if (underline && UNDERLINE_WORDS.includes(underline[1] as UnderlineStyle)) {
+            result.style!.underline = underline[1] as UnderlineStyle;
+            continue;
+        }
+        if (word.startsWith("underline-color=")) {
+            const color = parseColor(word.slice("underline-color=".length));
+            if (!color) {
+                return null;
+            }
+            result.style!.underlineColor = color;
+            continue;
+        }
+        if (word === "on") {
+            const color = parseColor(words[++i] ?? "");
+            if (!color) {
+                return null;
+            }
+            result.background = color;
+            continue;
+        }
+        const color = parseColor(word);
+        if (!color) {
+            return null;
+        }
+        result.color = color;
+    }
+    return result;
+}
+
+function mergeStyles(styles: SpanStyle[]): SpanStyle {
+    const merged: SpanStyle = {};
+    for (const { color, background, style } of styles) {
+        if (color) {
+            merged.color = color;
+        }
+        if (background) {
+            merged.background = background;
+        }
+        if (style && Object.keys(style).length > 0) {
+            merged.style = { ...merged.style, ...style };
+        }
+    }
+    return merged;
+}
+
+// Turn markup into spans. Invalid tags are kept as text, unmatched closing tags are dropped.
+export function parseMarkup(markup: string): Span[] {
+    const spans: Span[] = [];
+    const stack: SpanStyle[] = [];
+    let text = "";
+
+    const flush = () => {
+        if (text) {
+            spans.push({ text, ...mergeStyles(stack) });
+            text = "";
+        }
+    };
+
+    let i = 0;
+    while (i < markup.length) {
+        if (markup[i] === "\\") {
+            // Backslashes only escape when they come right before "[": each pair is one
+            // backslash, and an odd one left over makes the bracket literal
+            let end = i;
+            while (markup[end] === "\\") {
+                end++;
+            }
+            const count = end - i;
+            if (markup[end] !== "[") {
+                text += markup.slice(i, end);
+                i = end;
+                continue;
+            }
+            text += "\\".repeat(Math.floor(count / 2));
+            if (count % 2 === 1) {
+                text += "[";
+                i = end + 1;
+                continue;
+            }
+            i = end;
+        }
+        if (markup[i] === "[") {
+            const end = markup.indexOf("]", i + 1);
+            if (end !== -1) {
+                const tag = markup.slice(i + 1, end);
+                if (tag.startsWith("/")) {
+                    flush();
+                    stack.pop();
+                    i = end + 1;
+                    continue;
+                }
+                const style = parseTag(tag);
+                if (style) {
+                    flush();
+                    stack.push(style);
+                    i = end + 1;
+                    continue;
+                }
+            }
+        }
+        text += markup[i];
+        i++;
+    }
+    flush();
+    return spans;
+}
+
+// Escape text so it can be put into markup without being read as tags. Backslashes
+// before a bracket or at the end are doubled so they cannot escape what follows.
+export function escapeMarkup(text: string): string {
+    return text.replace(/(\\*)(\[|$)/g, (_, slashes: string, bracket: string) =>
+        slashes + slashes + (bracket ? "\\[" : ""));
+}
+
+export class RichText extends Node {
+    private _spans: Span[];
+    private _color: Color;
+
+    // Content is either a list of spans or a markup string
+    constructor(
+        content: Span[] | string,
+        position: Position = [0, 0],
+        color: Color = [255, 255, 255]
+    ) {
+        super(position);
+        this._spans = typeof content === "string" ? parseMarkup(content) : content;
+        this._color = color;
+    }
+
+    get spans(): Span[] {
+        return this._spans;
+    }
+
+    set spans(value: Span[]) {
+        this._spans = value;
+        this.markDirty();
+    }
+
+    // Replace the content with parsed markup
+    setMarkup(markup: string): void {
+        this.spans = parseMarkup(markup);
+    }
+
+    // Color of spans that do not set one
+    get color(): Color {
+        return this._color;
+    }
+
+    set color(value: Color) {
+        this._color = value;
+        this.markDirty();
+    }
+
+    // The text without styling
+    get text(): string {
+        return this.spans.map((span) => span.text).join("");
+    }
+
+    // Width in columns
+    get width(): number {
+        return stringWidth(this.text);
+    }
+
+    render(buffer: CellBuffer): void {
+        const [x, y] = this.absolutePosition;
+        let col = x;
+        for (const span of this.spans) {
+            const style = span.style ?? {};
+            buffer.writeText(
+                col,
+                y,
+                span.text,
+                span.color ?? this.color,
+                span.background,
+                styleToAttrs(style),
+                style.underlineColor ?? null
+            );
+            col += stringWidth(span.text);
+        }
+    }
+}
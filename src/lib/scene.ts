@@ -5,7 +5,10 @@
 import { Node } from "./node.ts";
 import { Group, Rectangle } from "./components.ts"; // Assuming Group and Rectangle are in components.ts
 import { Renderer } from "./renderer.ts"; // Assuming Renderer is in renderer.ts
-import { KittyUtil } from "./kitty.ts"; // Assuming KittyUtil is in kitty.ts
+import { KittyUtil } from "./kitty.ts";
+import { FrameScheduler } from "./scheduler.ts";
+import { TerminalSession } from "./terminal_session.ts";
+import { CellBuffer } from "./cell_buffer.ts";
 import { FocusableComponent } from "./input_components.ts"; // Assuming FocusableComponent is in input_components.ts
 
 // Define types for clarity
@@ -14,21 +17,49 @@ type Position = [number, number]; // [x, y]
 type Color = [number, number, number]; // [r, g, b]
 type KeyboardHandler = (key: string) => void;
 
+// An overlay layer. Layers are children of the Scene with a high zIndex, so their
+// content is drawn above the regular scene content no matter when it was added.
+export class Layer extends Group {
+    name: string;
+    captureInput: boolean; // While it shows something, keyboard input stays inside this layer
+
+    constructor(name: string, zIndex: number, captureInput: boolean = false) {
+        super([0, 0]);
+        this.name = name;
+        this.zIndex = zIndex;
+        this.captureInput = captureInput;
+    }
+
+    hasContent(): boolean {
+        return this.visible && this.children.some((child) => child.visible);
+    }
+}
+
+// Layers every Scene starts with. The regular scene content is the "base" layer.
+const DEFAULT_LAYERS: { name: string; zIndex: number; captureInput: boolean }[] = [
+    { name: "popup", zIndex: 100, captureInput: false },
+    { name: "modal", zIndex: 200, captureInput: true }
+];
+
 export class Scene extends Group {
-    size: Size;
     fullScreen: boolean;
     backgroundColor: Color;
     focusedComponent: FocusableComponent | null;
     private keyboardHandlers: { [key: string]: KeyboardHandler };
     private focusableComponents: FocusableComponent[]; // List of focusable components
+    private layers: Map<string, Layer>; // Overlay layers by name
+    private focusBeforeCapture: FocusableComponent | null; // Restored when a capturing layer empties
     renderer: Renderer;
+    frameScheduler: FrameScheduler;
     background: Rectangle; // Declare background property
 
     constructor(
         size: Size | undefined = undefined,
         position: Position = [0, 0],
         fullScreen: boolean = true,
-        backgroundColor: Color = [0, 0, 0]
+        backgroundColor: Color = [0, 0, 0],
+        maxFps: number = 0, // 0 means frames are not rate limited
+        output: KittyUtil | undefined = undefined // Where frames go (stdout by default); tests pass one backed by a VirtualTerminal
     ) {
         super(position);
 
@@ -37,6 +68,8 @@ export class Scene extends Group {
         this.focusedComponent = null;
         this.keyboardHandlers = {};
         this.focusableComponents = []; // Initialize the list
+        this.layers = new Map();
+        this.focusBeforeCapture = null;
 
         // Get terminal size if full screen or size is not provided
         if (fullScreen || size === undefined) {
@@ -54,8 +87,24 @@ export class Scene extends Group {
         );
         this.addChild(this.background); // Use the overridden addChild
 
+        // Create the overlay layers
+        for (const { name, zIndex, captureInput } of DEFAULT_LAYERS) {
+            this.addLayer(name, zIndex, captureInput);
+        }
+
         // Create a renderer
-        this.renderer = new Renderer(this);
+        this.renderer = new Renderer(this, output);
+
+        // Coalesce render requests into frames
+        this.frameScheduler = new FrameScheduler(() => this.renderScene(), maxFps);
+    }
+
+    override get size(): Size {
+        return super.size!;
+    }
+
+    override set size(value: Size) {
+        super.size = value;
     }
 
     private getTerminalSize(): Size {
@@ -116,15 +165,38 @@ export class Scene extends Group {
 
     // The Scene itself doesn't render anything directly
     // Its children (including the background) will be rendered by the renderer
-    override render(kittyUtil: KittyUtil): void { // Added override modifier
+    override render(buffer: CellBuffer): void { // Added override modifier
         // This method is required by the Node base class but is a no-op for Scene
     }
 
     renderScene(): void {
         // This is a convenience method that calls the renderer's renderScene method.
+        // Rendering now makes any frame that was requested earlier redundant.
+        this.frameScheduler.cancel();
         this.renderer.renderScene();
     }
 
+    // Render through the session's terminal and stop rendering once it is restored.
+    // Attach before the first render so the first frame lands on the session's screen.
+    attachSession(session: TerminalSession): void {
+        this.renderer.useKittyUtil(session.kittyUtil);
+        session.onCleanup(() => this.frameScheduler.cancel());
+    }
+
+    // Schedule a render. All requests made in the same tick produce a single frame,
+    // spaced out according to maxFps.
+    requestRender(): void {
+        this.frameScheduler.request();
+    }
+
+    get maxFps(): number {
+        return this.frameScheduler.maxFps;
+    }
+
+    set maxFps(value: number) {
+        this.frameScheduler.maxFps = value;
+    }
+
     setFocus(component: FocusableComponent | null): void {
         // Remove focus from the currently focused component
         if (this.focusedComponent && typeof this.focusedComponent.onBlur === 'function') {
@@ -138,13 +210,93 @@ export class Scene extends Group {
         }
     }
 
+    addLayer(name: string, zIndex: number, captureInput: boolean = false): Layer {
+        if (this.layers.has(name)) {
+            throw new Error(`Layer "${name}" already exists`);
+        }
+        const layer = new Layer(name, zIndex, captureInput);
+        this.layers.set(name, layer);
+        this.addChild(layer);
+        return layer;
+    }
+
+    getLayer(name: string): Layer | undefined {
+        return this.layers.get(name);
+    }
+
+    // Show a node above the regular scene content, e.g. a popup or a dialog
+    addOverlay(node: Node, layerName: string = "popup"): Node {
+        const layer = this.layers.get(layerName);
+        if (!layer) {
+            throw new Error(`Unknown layer "${layerName}"`);
+        }
+        const wasCapturing = this.getCapturingLayer();
+        layer.addChild(node);
+
+        // Move focus into a layer that captures input
+        if (layer === this.getCapturingLayer()) {
+            if (!wasCapturing) {
+                this.focusBeforeCapture = this.focusedComponent;
+            }
+            const tabbable = layer.getTabbableChildren();
+            this.setFocus(tabbable.length > 0 ? tabbable[0] : null);
+        }
+        return node;
+    }
+
+    removeOverlay(node: Node): boolean {
+        const layer = node.parent;
+        if (!(layer instanceof Layer) || !this.layers.has(layer.name)) {
+            return false;
+        }
+        const wasCapturing = this.getCapturingLayer();
+        layer.removeChild(node);
+
+        // Give focus back once the capturing layer has nothing left to show
+        if (wasCapturing && wasCapturing !== this.getCapturingLayer()) {
+            const capturing = this.getCapturingLayer();
+            if (capturing) {
+                const tabbable = capturing.getTabbableChildren();
+                this.setFocus(tabbable.length > 0 ? tabbable[0] : null);
+            } else {
+                this.setFocus(this.focusBeforeCapture);
+                this.focusBeforeCapture = null;
+            }
+        }
+        return true;
+    }
+
+    // Topmost layer that currently captures keyboard input, if any
+    getCapturingLayer(): Layer | null {
+        let capturing: Layer | null = null;
+        for (const layer of this.layers.values()) {
+            if (layer.captureInput && layer.hasContent() && (!capturing || layer.zIndex > capturing.zIndex)) {
+                capturing = layer;
+            }
+        }
+        return capturing;
+    }
+
+    // Focusable components that keyboard navigation may move between
+    private getNavigableComponents(): FocusableComponent[] {
+        const capturing = this.getCapturingLayer();
+        return capturing ? capturing.getTabbableChildren() : this.getTabbableChildren();
+    }
+
     registerKeyboardHandler(key: string, handler: KeyboardHandler): void {
         this.keyboardHandlers[key] = handler;
     }
 
     handleKey(key: string): boolean {
+        const navigable = this.getNavigableComponents();
+
         // First, try to let the focused component handle the key
-        if (this.focusedComponent && typeof this.focusedComponent.handleKey === 'function') {
+        // (unless a capturing overlay is shown and the component is outside of it)
+        if (
+            this.focusedComponent &&
+            typeof this.focusedComponent.handleKey === 'function' &&
+            (!this.getCapturingLayer() || navigable.includes(this.focusedComponent))
+        ) {
             if (this.focusedComponent.handleKey(key)) {
                 return true;
             }
@@ -152,7 +304,7 @@ export class Scene extends Group {
 
         // If the focused component didn't handle it, handle tab and arrow keys for navigation
         if (key === 'tab' || key === 'shift_tab') {
-            const tabbable = this.getTabbableChildren();
+            const tabbable = navigable;
             if (tabbable.length > 0) {
                 let currentIndex = this.focusedComponent ? tabbable.indexOf(this.focusedComponent) : -1;
                 let nextIndex = -1;
@@ -168,7 +320,7 @@ export class Scene extends Group {
             }
         } else if (key === 'up' || key === 'down' || key === 'left' || key === 'right') {
             // Basic arrow key navigation (can be overridden by components)
-            const tabbable = this.getTabbableChildren();
+            const tabbable = navigable;
             if (this.focusedComponent && this.focusedComponent instanceof Node) {
                 const currentPos = (this.focusedComponent as Node).absolutePosition;
                 let nearestComponent: FocusableComponent | null = null;
@@ -0,0 +1,71 @@
+// Scheduler module for the Ghostty Graphics Library.
+// This module defines the FrameScheduler class, which coalesces render requests.
+// Every request made in the same tick results in a single frame, and an optional
+// FPS cap spaces frames out when requests keep coming in.
+
+type FrameCallback = () => void;
+
+export class FrameScheduler {
+    maxFps: number; // 0 means uncapped
+    private callback: FrameCallback;
+    private pending: boolean;
+    private timerId: ReturnType<typeof setTimeout> | null;
+    private lastFrameTime: number;
+
+    constructor(callback: FrameCallback, maxFps: number = 0) {
+        this.callback = callback;
+        this.maxFps = maxFps;
+        this.pending = false;
+        this.timerId = null;
+        this.lastFrameTime = -Infinity;
+    }
+
+    get isPending(): boolean {
+        return this.pending;
+    }
+
+    // Ask for a frame. Repeated requests before the frame runs are merged into it.
+    request(): void {
+        if (this.pending) {
+            return;
+        }
+        this.pending = true;
+
+        const delay = this.maxFps > 0
+            ? this.lastFrameTime + 1000 / this.maxFps - performance.now()
+            : 0;
+
+        if (delay > 0) {
+            // Too soon after the last frame, wait for the next slot
+            this.timerId = setTimeout(() => this._runFrame(), delay);
+        } else {
+            // Run once the current tick's synchronous work is done
+            queueMicrotask(() => this._runFrame());
+        }
+    }
+
+    // Drop a pending frame, e.g. because the caller just rendered synchronously
+    cancel(): void {
+        this.pending = false;
+        if (this.timerId !== null) {
+            clearTimeout(this.timerId);
+            this.timerId = null;
+        }
+    }
+
+    // Run a pending frame right away instead of waiting for the tick to end
+    flush(): void {
+        if (this.pending) {
+            this._runFrame();
+        }
+    }
+
+    private _runFrame(): void {
+        if (!this.pending) {
+            return; // Cancelled or already flushed
+        }
+        this.cancel();
+        this.lastFrameTime = performance.now();
+        this.callback();
+    }
+}
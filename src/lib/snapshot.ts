@@ -0,0 +1,269 @@
+// Snapshot module for the Ghostty Graphics Library.
+// This module renders a scene off-screen into a VirtualTerminal and compares the
+// result with a golden file, so tests can check what would actually be on screen.
+// Golden files are either plain text (characters only) or JSON (characters plus
+// colors and attributes). Run the tests with `-- --update` (or pass `update: true`)
+// to write the current output as the new golden file.
+
+import { Node } from "./node.ts";
+import { Renderer } from "./renderer.ts";
+import { KittyUtil } from "./kitty.ts";
+import { VirtualTerminal } from "./virtual_terminal.ts";
+import { Cell, blankCell, cellsEqual } from "./cell_buffer.ts";
+import { graphemeWidth, graphemes } from "./text_width.ts";
+import { attrsToStyle } from "./text_style.ts";
+
+// Define types for clarity
+type Size = [number, number]; // [width, height]
+type Color = [number, number, number]; // [r, g, b]
+
+export type SnapshotFormat = "text" | "json";
+
+export interface SnapshotOptions {
+    size?: Size; // Screen size in cells (defaults to the node's size, or 80x24)
+    format?: SnapshotFormat; // Defaults to "text", or "json" for .json files
+    update?: boolean; // Overwrite the golden file instead of comparing
+}
+
+// A run of cells on one row that share a non-default style
+interface StyleRun {
+    x: number;
+    y: number;
+    length: number;
+    fg: Color | null;
+    bg: Color | null;
+    attrs: number;
+    underlineColor?: Color; // Left out when the underline uses the text color
+}
+
+interface JsonSnapshot {
+    width: number;
+    height: number;
+    lines: string[];
+    styles: StyleRun[];
+}
+
+// At most this many differing cells are listed in a mismatch report
+const MAX_REPORTED_CELLS = 20;
+
+export class SnapshotMismatchError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SnapshotMismatchError";
+    }
+}
+
+// Render a node tree into a fresh VirtualTerminal
+export function renderSnapshot(root: Node, size: Size | undefined = undefined): VirtualTerminal {
+    const [width, height] = size ?? (root as { size?: Size }).size ?? [80, 24];
+    const terminal = new VirtualTerminal(width, height);
+    const renderer = new Renderer(root, new KittyUtil(terminal), [width, height]);
+    renderer.renderScene();
+    // The off-screen frame consumed the dirty flags; make sure the real renderer repaints
+    root.markDirty();
+    return terminal;
+}
+
+// Serialize the screen of a VirtualTerminal in the given format
+export function serializeSnapshot(terminal: VirtualTerminal, format: SnapshotFormat = "text"): string {
+    const lines: string[] = [];
+    for (let y = 0; y < terminal.height; y++) {
+        lines.push(terminal.getLine(y));
+    }
+    if (format === "text") {
+        return lines.join("\n") + "\n";
+    }
+
+    const styles: StyleRun[] = [];
+    for (let y = 0; y < terminal.height; y++) {
+        let run: StyleRun | null = null;
+        for (let x = 0; x < terminal.width; x++) {
+            const cell = terminal.cellAt(x, y)!;
+            if (run && sameStyle(cell, run)) {
+                run.length++;
+                continue;
+            }
+            run = null;
+            if (cell.fg || cell.bg || cell.attrs || cell.underlineColor) {
+                run = { x, y, length: 1, fg: cell.fg, bg: cell.bg, attrs: cell.attrs };
+                if (cell.underlineColor) {
+                    run.underlineColor = cell.underlineColor;
+                }
+                styles.push(run);
+            }
+        }
+    }
+    // One line and one style run per row of the file keeps golden files easy to review
+    const list = (items: unknown[]) => items.map((item) => "    " + JSON.stringify(item)).join(",\n");
+    return [
+        "{",
+        `  "width": ${terminal.width},`,
+        `  "height": ${terminal.height},`,
+        `  "lines": [\n${list(lines)}\n  ],`,
+        `  "styles": [\n${list(styles)}\n  ]`,
+        "}"
+    ].join("\n") + "\n";
+}
+
+/**
+ * Renders `root` off-screen and compares it with the golden file at `path`.
+ * Throws a SnapshotMismatchError listing the differing cells when they do not match.
+ * The golden file is written instead when updating, or when running with `--update`/`-u`.
+ */
+export async function assertSnapshot(
+    root: Node,
+    path: string | URL,
+    options: SnapshotOptions = {}
+): Promise<void> {
+    const format = options.format ?? (String(path).endsWith(".json") ? "json" : "text");
+    const actual = serializeSnapshot(renderSnapshot(root, options.size), format);
+    const update = options.update ?? (Deno.args.includes("--update") || Deno.args.includes("-u"));
+
+    if (update) {
+        const file = path instanceof URL ? path : new URL(path, `file://${Deno.cwd()}/`);
+        await Deno.mkdir(new URL(".", file), { recursive: true });
+        await Deno.writeTextFile(path, actual);
+        return;
+    }
+
+    let expected: string;
+    try {
+        expected = await Deno.readTextFile(path);
+    } catch (e) {
+        if (e instanceof Deno.errors.NotFound) {
+            throw new SnapshotMismatchError(
+                `Snapshot ${path} does not exist. Run the tests with "-- --update" to create it.`
+            );
+        }
+        throw e;
+    }
+
+    if (expected === actual) {
+        return;
+    }
+    const report = diffSnapshots(parseSnapshot(expected, format), parseSnapshot(actual, format), format);
+    throw new SnapshotMismatchError(`Snapshot ${path} does not match.\n${report}`);
+}
+
+function sameStyle(cell: Cell, run: StyleRun): boolean {
+    return sameColor(cell.fg, run.fg) &&
+        sameColor(cell.bg, run.bg) &&
+        cell.attrs === run.attrs &&
+        sameColor(cell.underlineColor, run.underlineColor ?? null);
+}
+
+function sameColor(a: Color | null, b: Color | null): boolean {
+    if (!a || !b) {
+        return a === b;
+    }
+    return a[0] === b[0] && a[1] === b[1] && a[2] === b[2];
+}
+
+// Turn a serialized snapshot back into rows of cells
+function parseSnapshot(content: string, format: SnapshotFormat): Cell[][] {
+    let lines: string[];
+    let styles: StyleRun[] = [];
+    if (format === "json") {
+        const snapshot = JSON.parse(content) as JsonSnapshot;
+        lines = snapshot.lines;
+        styles = snapshot.styles;
+    } else {
+        lines = content.replace(/\n$/, "").split("\n");
+    }
+
+    const rows = lines.map((line) => {
+        const row: Cell[] = [];
+        for (const grapheme of graphemes(line)) {
+            row.push({ ...blankCell(), char: grapheme });
+            if (graphemeWidth(grapheme) === 2) {
+                row.push({ ...blankCell(), char: "" }); // Second half of a wide character
+            }
+        }
+        return row;
+    });
+    for (const run of styles) {
+        const row = rows[run.y] ?? [];
+        for (let x = run.x; x < run.x + run.length; x++) {
+            while (row.length <= x) {
+                row.push(blankCell());
+            }
+            row[x] = {
+                char: row[x].char,
+                fg: run.fg,
+                bg: run.bg,
+                attrs: run.attrs,
+                underlineColor: run.underlineColor ?? null
+            };
+        }
+    }
+    return rows;
+}
+
+function describeColor(color: Color | null): string {
+    if (!color) {
+        return "default";
+    }
+    return "#" + color.map((channel) => channel.toString(16).padStart(2, "0")).join("");
+}
+
+function describeCell(cell: Cell, format: SnapshotFormat): string {
+    const char = JSON.stringify(cell.char);
+    if (format === "text") {
+        return char;
+    }
+    let description = `${char} fg=${describeColor(cell.fg)} bg=${describeColor(cell.bg)}`;
+    const style = Object.entries(attrsToStyle(cell.attrs)).map(([name, value]) =>
+        value === true ? name : `${name}=${value}`
+    );
+    if (style.length > 0) {
+        description += ` ${style.join(",")}`;
+    }
+    if (cell.underlineColor) {
+        description += ` underlineColor=${describeColor(cell.underlineColor)}`;
+    }
+    return description;
+}
+
+// Readable report of the cells that differ, followed by the differing rows
+function diffSnapshots(expected: Cell[][], actual: Cell[][], format: SnapshotFormat): string {
+    const differences: string[] = [];
+    const changedRows: number[] = [];
+    const height = Math.max(expected.length, actual.length);
+
+    for (let y = 0; y < height; y++) {
+        const expectedRow = expected[y] ?? [];
+        const actualRow = actual[y] ?? [];
+        let rowChanged = false;
+        for (let x = 0; x < Math.max(expectedRow.length, actualRow.length); x++) {
+            const expectedCell = expectedRow[x] ?? blankCell();
+            const actualCell = actualRow[x] ?? blankCell();
+            const differs = format === "json"
+                ? !cellsEqual(expectedCell, actualCell)
+                : expectedCell.char !== actualCell.char;
+            if (differs) {
+                rowChanged = true;
+                differences.push(
+                    `  (${x}, ${y}): expected ${describeCell(expectedCell, format)}, ` +
+                    `got ${describeCell(actualCell, format)}`
+                );
+            }
+        }
+        if (rowChanged) {
+            changedRows.push(y);
+        }
+    }
+
+    const lines = [`${differences.length} cell(s) differ:`];
+    lines.push(...differences.slice(0, MAX_REPORTED_CELLS));
+    if (differences.length > MAX_REPORTED_CELLS) {
+        lines.push(`  ... and ${differences.length - MAX_REPORTED_CELLS} more`);
+    }
+    lines.push("Rows (- expected, + actual):");
+    const rowText = (row: Cell[] | undefined) => (row ?? []).map((cell) => cell.char).join("").trimEnd();
+    for (const y of changedRows) {
+        const label = String(y).padStart(3);
+        lines.push(`- ${label} |${rowText(expected[y])}`);
+        lines.push(`+ ${label} |${rowText(actual[y])}`);
+    }
+    return lines.join("\n");
+}
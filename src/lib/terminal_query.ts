@@ -0,0 +1,195 @@
+// Terminal Query module for the Ghostty Graphics Library.
+// This module sends queries to the terminal and reads the replies from stdin.
+// Every query is followed by a primary device attributes request (DA1). All
+// terminals answer DA1, so once its reply arrives we know any other reply has
+// already been sent and do not need to wait for the timeout.
+
+// Define types for clarity
+export interface TerminalInput {
+    readable: ReadableStream<Uint8Array>;
+    isTerminal?(): boolean;
+    setRaw?(mode: boolean, options?: Deno.SetRawOptions): void;
+}
+
+export interface TerminalOutput {
+    writeSync(p: Uint8Array): number;
+}
+
+export interface QueryOptions {
+    input?: TerminalInput;
+    output?: TerminalOutput;
+    timeout?: number; // Milliseconds to wait for the replies
+}
+
+const DEFAULT_TIMEOUT = 200;
+
+// Replies start with ESC. Patterns are built from it, as control characters are
+// not allowed in regex literals.
+const ESC = "\x1b";
+
+// Raw mode is shared: everyone who needs it acquires it and releases it when done,
+// and the terminal only leaves raw mode once the last user has released it.
+const rawModeUsers = new WeakMap<TerminalInput, number>();
+
+// Returns false when raw mode could not be enabled
+export function acquireRawMode(input: TerminalInput): boolean {
+    const users = rawModeUsers.get(input) ?? 0;
+    if (users === 0) {
+        if (!input.setRaw) {
+            return false;
+        }
+        try {
+            input.setRaw(true, { cbreak: true }); // cbreak keeps Ctrl+C delivering SIGINT
+        } catch (_e) {
+            return false;
+        }
+    }
+    rawModeUsers.set(input, users + 1);
+    return true;
+}
+
+export function releaseRawMode(input: TerminalInput): void {
+    const users = rawModeUsers.get(input) ?? 0;
+    if (users === 0) {
+        return;
+    }
+    rawModeUsers.set(input, users - 1);
+    if (users === 1) {
+        try {
+            input.setRaw!(false);
+        } catch (_e) {
+            // Nothing more we can do
+        }
+    }
+}
+
+// Primary device attributes request and the pattern of its reply
+const DA1_REQUEST = "\x1b[c";
+const DA1_REPLY = new RegExp(ESC + String.raw`\[\?([\d;]*)c`);
+
+/**
+ * Sends a query followed by DA1 and collects everything the terminal answers
+ * until the DA1 reply arrives or the timeout expires.
+ * Resolves to an empty string when stdin is not a terminal, or is already being
+ * read by someone else (e.g. an InputManager), who would receive the replies.
+ */
+export async function queryTerminal(query: string, options: QueryOptions = {}): Promise<string> {
+    const input = options.input ?? Deno.stdin;
+    const output = options.output ?? Deno.stdout;
+    const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+
+    if (input.isTerminal && !input.isTerminal()) {
+        return ""; // Nobody to answer
+    }
+    if (input.readable.locked) {
+        return "";
+    }
+
+    // Replies are only delivered unbuffered in raw mode
+    const rawAcquired = acquireRawMode(input);
+
+    const decoder = new TextDecoder();
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    let response = "";
+    let timerId: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<null>((resolve) => {
+        timerId = setTimeout(() => resolve(null), timeout);
+    });
+
+    try {
+        reader = input.readable.getReader();
+        output.writeSync(new TextEncoder().encode(query + DA1_REQUEST));
+
+        while (!DA1_REPLY.test(response)) {
+            const read = reader.read();
+            read.catch(() => {}); // Rejected when the lock is released while still waiting
+            const result = await Promise.race([read, timedOut]);
+            if (result === null || result.done) {
+                break; // Timed out or input closed
+            }
+            response += decoder.decode(result.value, { stream: true });
+        }
+    } catch (_e) {
+        // Treat read and write errors like a missing reply
+    } finally {
+        clearTimeout(timerId);
+        reader?.releaseLock();
+        if (rawAcquired) {
+            releaseRawMode(input);
+        }
+    }
+
+    return response;
+}
+
+// DECRQM reply for mode 2026: 1 = set, 2 = reset, 3 = permanently set;
+// 0 = unknown mode, 4 = permanently reset
+function parseSynchronizedOutput(response: string): boolean {
+    const match = response.match(new RegExp(ESC + String.raw`\[\?2026;(\d)\$y`));
+    return match !== null && (match[1] === "1" || match[1] === "2" || match[1] === "3");
+}
+
+// XTWINOPS reply CSI 6 ; height ; width t, returned as [width, height]
+function parseCellPixelSize(response: string): [number, number] | null {
+    const match = response.match(new RegExp(ESC + String.raw`\[6;(\d+);(\d+)t`));
+    if (!match) {
+        return null;
+    }
+    const height = parseInt(match[1], 10);
+    const width = parseInt(match[2], 10);
+    if (width === 0 || height === 0) {
+        return null;
+    }
+    return [width, height];
+}
+
+/**
+ * Checks whether the terminal supports synchronized output (DEC private mode 2026)
+ * using a DECRQM query. Resolves to false when the terminal does not answer.
+ */
+export async function detectSynchronizedOutput(options: QueryOptions = {}): Promise<boolean> {
+    return parseSynchronizedOutput(await queryTerminal("\x1b[?2026$p", options));
+}
+
+/**
+ * Asks the terminal for the size of one cell in pixels (XTWINOPS, CSI 16 t).
+ * Resolves to [width, height], or null when the terminal does not answer.
+ */
+export async function detectCellPixelSize(options: QueryOptions = {}): Promise<[number, number] | null> {
+    return parseCellPixelSize(await queryTerminal("\x1b[16t", options));
+}
+
+// What the terminal can do, as far as a probe could tell
+export interface TerminalCapabilities {
+    answered: boolean; // The terminal replied at all; when false nothing else is known
+    graphics: boolean; // Kitty graphics protocol
+    synchronizedOutput: boolean; // DEC private mode 2026
+    cellPixelSize: [number, number] | null; // [width, height] of one cell in pixels
+    deviceAttributes: number[]; // Parameters of the DA1 reply, e.g. 62 for a VT220 class terminal
+}
+
+// Id of the 1x1 image used to ask about graphics support; a=q does not store it
+const GRAPHICS_QUERY_ID = 31;
+
+/**
+ * Probes the terminal in a single round trip: a Kitty graphics query (a=q with a
+ * one-pixel image), synchronized output (DECRQM 2026) and the cell size (CSI 16 t),
+ * ended by the DA1 request that every terminal answers. Whatever did not get a reply
+ * before the DA1 reply or the timeout is reported as unsupported.
+ */
+export async function detectCapabilities(options: QueryOptions = {}): Promise<TerminalCapabilities> {
+    const response = await queryTerminal(
+        `\x1b_Gi=${GRAPHICS_QUERY_ID},s=1,v=1,a=q,t=d,f=24;AAAA\x1b\\` + "\x1b[?2026$p" + "\x1b[16t",
+        options
+    );
+
+    const deviceAttributes = response.match(DA1_REPLY);
+    return {
+        answered: deviceAttributes !== null,
+        // Terminals without graphics ignore the query or answer with an error
+        graphics: response.includes(`\x1b_Gi=${GRAPHICS_QUERY_ID};OK\x1b\\`),
+        synchronizedOutput: parseSynchronizedOutput(response),
+        cellPixelSize: parseCellPixelSize(response),
+        deviceAttributes: deviceAttributes ? deviceAttributes[1].split(";").filter(Boolean).map(Number) : []
+    };
+}
@@ -0,0 +1,182 @@
+// Terminal Session module for the Ghostty Graphics Library.
+// This module defines the TerminalSession class, which puts the terminal into the
+// state a full-screen UI needs (alternate screen, hidden cursor, raw input) and
+// restores it on normal exit, SIGINT, SIGTERM and uncaught errors.
+
+import { KittyUtil } from "./kitty.ts";
+import { TerminalInput, acquireRawMode, releaseRawMode } from "./terminal_query.ts";
+
+// Define types for clarity
+type CleanupHandler = () => void | Promise<void>;
+
+export interface TerminalSessionOptions {
+    alternateScreen?: boolean; // Switch to the alternate screen (default true)
+    hideCursor?: boolean; // Hide the cursor while the UI runs (default true)
+    rawMode?: boolean; // Put stdin in raw mode (default true)
+    exitOnSignal?: boolean; // Exit the process after restoring on SIGINT/SIGTERM (default true)
+}
+
+// Exit codes follow the shell convention of 128 + signal number
+const SIGNAL_EXIT_CODES: { [signal: string]: number } = {
+    SIGINT: 130,
+    SIGTERM: 143
+};
+
+export class TerminalSession {
+    kittyUtil: KittyUtil;
+    private input: TerminalInput;
+    private options: Required<TerminalSessionOptions>;
+    private active: boolean;
+    private rawModeSet: boolean;
+    private cleanupHandlers: CleanupHandler[];
+    private signalListeners: { signal: Deno.Signal; listener: () => void }[];
+    private onUnload: () => void;
+    private onError: () => void;
+
+    constructor(
+        kittyUtil: KittyUtil | undefined = undefined,
+        options: TerminalSessionOptions = {},
+        input: TerminalInput = Deno.stdin
+    ) {
+        this.kittyUtil = kittyUtil || new KittyUtil();
+        this.input = input;
+        this.options = {
+            alternateScreen: options.alternateScreen ?? true,
+            hideCursor: options.hideCursor ?? true,
+            rawMode: options.rawMode ?? true,
+            exitOnSignal: options.exitOnSignal ?? true
+        };
+        this.active = false;
+        this.rawModeSet = false;
+        this.cleanupHandlers = [];
+        this.signalListeners = [];
+        this.onUnload = () => this.restore();
+        this.onError = () => this.restore(); // The runtime still reports the error afterwards
+    }
+
+    get isActive(): boolean {
+        return this.active;
+    }
+
+    get managesRawMode(): boolean {
+        return this.options.rawMode;
+    }
+
+    start(): void {
+        if (this.active) {
+            return;
+        }
+        this.active = true;
+
+        if (this.options.alternateScreen) {
+            this.kittyUtil.enterAlternateScreen();
+        }
+        if (this.options.hideCursor) {
+            this.kittyUtil.hideCursor();
+        }
+        this.kittyUtil.clearScreen();
+        this.kittyUtil.flush();
+
+        if (this.options.rawMode) {
+            this.rawModeSet = acquireRawMode(this.input);
+            if (!this.rawModeSet) {
+                console.error("Failed to set raw terminal mode, input may be line buffered");
+            }
+        }
+
+        for (const signal of ["SIGINT", "SIGTERM"] as Deno.Signal[]) {
+            const listener = () => {
+                this.restore();
+                if (this.options.exitOnSignal) {
+                    Deno.exit(SIGNAL_EXIT_CODES[signal]);
+                }
+            };
+            try {
+                Deno.addSignalListener(signal, listener);
+                this.signalListeners.push({ signal, listener });
+            } catch (_e) {
+                // Signal not supported on this platform (e.g. SIGTERM on Windows)
+            }
+        }
+        globalThis.addEventListener("unload", this.onUnload);
+        globalThis.addEventListener("error", this.onError);
+        globalThis.addEventListener("unhandledrejection", this.onError);
+    }
+
+    // Register something to undo before the terminal is restored, e.g. stopping input.
+    // Handlers run in reverse order of registration.
+    onCleanup(handler: CleanupHandler): void {
+        this.cleanupHandlers.push(handler);
+    }
+
+    // Restore the terminal right away. Safe to call more than once.
+    // Asynchronous cleanup handlers are started but not awaited; use end() for that.
+    restore(): void {
+        if (!this.active) {
+            return;
+        }
+        const handlers = this._takeCleanupHandlers();
+        for (const handler of handlers) {
+            try {
+                const result = handler();
+                if (result instanceof Promise) {
+                    result.catch((e) => console.error("Cleanup handler failed:", e));
+                }
+            } catch (e) {
+                console.error("Cleanup handler failed:", e);
+            }
+        }
+        this._restoreTerminal();
+    }
+
+    // Normal shutdown: wait for the cleanup handlers, then restore the terminal
+    async end(): Promise<void> {
+        if (!this.active) {
+            return;
+        }
+        const handlers = this._takeCleanupHandlers();
+        for (const handler of handlers) {
+            try {
+                await handler();
+            } catch (e) {
+                console.error("Cleanup handler failed:", e);
+            }
+        }
+        this._restoreTerminal();
+    }
+
+    private _takeCleanupHandlers(): CleanupHandler[] {
+        const handlers = this.cleanupHandlers.reverse();
+        this.cleanupHandlers = [];
+        return handlers;
+    }
+
+    private _restoreTerminal(): void {
+        if (!this.active) {
+            return;
+        }
+        this.active = false;
+
+        if (this.rawModeSet) {
+            releaseRawMode(this.input);
+            this.rawModeSet = false;
+        }
+
+        this.kittyUtil.deleteAllImages(); // Image data would otherwise stay in terminal memory
+        this.kittyUtil.invalidateState(); // Reset unconditionally, whatever we think the state is
+        this.kittyUtil.resetColors();
+        this.kittyUtil.showCursor();
+        if (this.options.alternateScreen) {
+            this.kittyUtil.exitAlternateScreen();
+        }
+        this.kittyUtil.flush();
+
+        for (const { signal, listener } of this.signalListeners) {
+            Deno.removeSignalListener(signal, listener);
+        }
+        this.signalListeners = [];
+        globalThis.removeEventListener("unload", this.onUnload);
+        globalThis.removeEventListener("error", this.onError);
+        globalThis.removeEventListener("unhandledrejection", this.onError);
+    }
+}
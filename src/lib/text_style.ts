@@ -0,0 +1,92 @@
+// Text Style module for the Ghostty Graphics Library.
+// This module defines TextStyle, the text attributes a Text node can ask for, and
+// how they are packed into the `attrs` bitmask of a cell. Underlines come in the
+// styles Kitty supports (SGR 4:1 to 4:5) and can have their own color (SGR 58).
+
+// Define types for clarity
+type Color = [number, number, number]; // [r, g, b]
+
+export type UnderlineStyle = "straight" | "double" | "curly" | "dotted" | "dashed";
+
+export interface TextStyle {
+    bold?: boolean;
+    dim?: boolean;
+    italic?: boolean;
+    reverse?: boolean; // Swap foreground and background
+    strikethrough?: boolean;
+    underline?: UnderlineStyle | boolean; // true means "straight"
+    underlineColor?: Color; // Defaults to the text color
+}
+
+// Bits of Cell.attrs
+export const BOLD = 1 << 0;
+export const DIM = 1 << 1;
+export const ITALIC = 1 << 2;
+export const REVERSE = 1 << 3;
+export const STRIKETHROUGH = 1 << 4;
+// Bits 5-7 hold the underline style: 0 for none, otherwise 1 + the index in UNDERLINE_STYLES,
+// which is also the n of SGR 4:n
+const UNDERLINE_SHIFT = 5;
+export const UNDERLINE_MASK = 0b111 << UNDERLINE_SHIFT;
+
+export const UNDERLINE_STYLES: UnderlineStyle[] = ["straight", "double", "curly", "dotted", "dashed"];
+
+// Pack a style into a cell attribute bitmask
+export function styleToAttrs(style: TextStyle): number {
+    let attrs = 0;
+    if (style.bold) {
+        attrs |= BOLD;
+    }
+    if (style.dim) {
+        attrs |= DIM;
+    }
+    if (style.italic) {
+        attrs |= ITALIC;
+    }
+    if (style.reverse) {
+        attrs |= REVERSE;
+    }
+    if (style.strikethrough) {
+        attrs |= STRIKETHROUGH;
+    }
+    if (style.underline) {
+        const underline = style.underline === true ? "straight" : style.underline;
+        attrs |= (UNDERLINE_STYLES.indexOf(underline) + 1) << UNDERLINE_SHIFT;
+    }
+    return attrs;
+}
+
+// SGR 4:n underline number of a bitmask, 0 when not underlined
+export function underlineOf(attrs: number): number {
+    return (attrs & UNDERLINE_MASK) >> UNDERLINE_SHIFT;
+}
+
+// Bitmask with the underline set to SGR 4:n
+export function withUnderline(attrs: number, underline: number): number {
+    return (attrs & ~UNDERLINE_MASK) | ((underline & 0b111) << UNDERLINE_SHIFT);
+}
+
+// Unpack a cell attribute bitmask, e.g. for reports and tests
+export function attrsToStyle(attrs: number): TextStyle {
+    const style: TextStyle = {};
+    if (attrs & BOLD) {
+        style.bold = true;
+    }
+    if (attrs & DIM) {
+        style.dim = true;
+    }
+    if (attrs & ITALIC) {
+        style.italic = true;
+    }
+    if (attrs & REVERSE) {
+        style.reverse = true;
+    }
+    if (attrs & STRIKETHROUGH) {
+        style.strikethrough = true;
+    }
+    const underline = underlineOf(attrs);
+    if (underline > 0) {
+        style.underline = UNDERLINE_STYLES[underline - 1];
+    }
+    return style;
+}
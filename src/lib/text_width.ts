@@ -0,0 +1,183 @@
+// Text Width module for the Ghostty Graphics Library.
+// This module measures text in terminal columns. Strings are split into grapheme
+// clusters (what the user sees as one character, e.g. "é" written as "e" plus a
+// combining accent, or a family emoji joined with ZWJ), and each cluster is 0, 1
+// or 2 columns wide following the East Asian Width property and emoji presentation.
+// Layout code should use these functions instead of string.length.
+
+const segmenter = typeof Intl !== "undefined" && "Segmenter" in Intl
+    ? new Intl.Segmenter(undefined, { granularity: "grapheme" })
+    : null;
+
+// Printable ASCII is by far the most common case and needs no segmentation
+const PRINTABLE_ASCII = /^[\x20-\x7e]*$/;
+
+// Clusters that take no space: combining marks on their own, format and control characters
+const ZERO_WIDTH = /^[\p{Mn}\p{Me}\p{Cf}\p{Cc}]/u;
+
+// Emoji shown as pictures by default, regional indicator pairs (flags), and
+// text-style emoji followed by VS16 (U+FE0F) are two columns wide
+const WIDE_EMOJI = /^(\p{Emoji_Presentation}|\p{Regional_Indicator}|\p{Emoji}\u{FE0F})/u;
+
+// East Asian Wide and Fullwidth ranges (CJK, Hangul, fullwidth forms, ...)
+const WIDE_RANGES: [number, number][] = [
+    [0x1100, 0x115f], [0x2329, 0x232a], [0x2e80, 0x303e], [0x3041, 0x33ff],
+    [0x3400, 0x4dbf], [0x4e00, 0x9fff], [0xa000, 0xa4cf], [0xa960, 0xa97f],
+    [0xac00, 0xd7a3], [0xf900, 0xfaff], [0xfe10, 0xfe19], [0xfe30, 0xfe6f],
+    [0xff00, 0xff60], [0xffe0, 0xffe6], [0x16fe0, 0x16fe4], [0x17000, 0x18aff],
+    [0x1b000, 0x1b2ff], [0x20000, 0x2fffd], [0x30000, 0x3fffd]
+];
+
+function isWideCodePoint(codePoint: number): boolean {
+    // Binary search over the sorted ranges
+    let low = 0;
+    let high = WIDE_RANGES.length - 1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        const [start, end] = WIDE_RANGES[mid];
+        if (codePoint < start) {
+            high = mid - 1;
+        } else if (codePoint > end) {
+            low = mid + 1;
+        } else {
+            return true;
+        }
+    }
+    return false;
+}
+
+// Split text into grapheme clusters
+export function graphemes(text: string): string[] {
+    if (PRINTABLE_ASCII.test(text)) {
+        return text.split("");
+    }
+    if (!segmenter) {
+        return Array.from(text); // Code points are the best we can do
+    }
+    return Array.from(segmenter.segment(text), (segment) => segment.segment);
+}
+
+// Number of columns a single grapheme cluster occupies: 0, 1 or 2
+export function graphemeWidth(grapheme: string): number {
+    if (grapheme.length === 0 || ZERO_WIDTH.test(grapheme)) {
+        return 0;
+    }
+    if (WIDE_EMOJI.test(grapheme)) {
+        return 2;
+    }
+    return isWideCodePoint(grapheme.codePointAt(0)!) ? 2 : 1;
+}
+
+// Number of columns the text occupies on one line
+export function stringWidth(text: string): number {
+    if (PRINTABLE_ASCII.test(text)) {
+        return text.length;
+    }
+    let width = 0;
+    for (const grapheme of graphemes(text)) {
+        width += graphemeWidth(grapheme);
+    }
+    return width;
+}
+
+/**
+ * Cut text down to at most `maxWidth` columns without splitting a grapheme cluster.
+ * When the text is cut, `ellipsis` (e.g. "…") is appended and counted in the width.
+ */
+export function truncateToWidth(text: string, maxWidth: number, ellipsis: string = ""): string {
+    if (stringWidth(text) <= maxWidth) {
+        return text;
+    }
+    const available = maxWidth - stringWidth(ellipsis);
+    if (available < 0) {
+        return "";
+    }
+    let result = "";
+    let width = 0;
+    for (const grapheme of graphemes(text)) {
+        const w = graphemeWidth(grapheme);
+        if (width + w > available) {
+            break;
+        }
+        result += grapheme;
+        width += w;
+    }
+    return result + ellipsis;
+}
+
+export type WrapMode = "word" | "char" | "none";
+
+// Break `text` into lines at most `width` columns wide. "word" breaks between words
+// (and inside words longer than a line), "char" breaks anywhere, "none" only at "\n".
+export function wrapText(text: string, width: number | undefined, mode: WrapMode = "word"): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split(/\r?\n/)) {
+        if (width === undefined || mode === "none") {
+            lines.push(paragraph);
+        } else if (mode === "char") {
+            lines.push(...breakGraphemes(paragraph, width));
+        } else {
+            lines.push(...wrapWords(paragraph, width));
+        }
+    }
+    return lines;
+}
+
+// Cut text into pieces of at most `width` columns
+function breakGraphemes(text: string, width: number): string[] {
+    const pieces: string[] = [];
+    let piece = "";
+    let pieceWidth = 0;
+    for (const grapheme of graphemes(text)) {
+        const w = graphemeWidth(grapheme);
+        if (pieceWidth + w > width && piece !== "") {
+            pieces.push(piece);
+            piece = "";
+            pieceWidth = 0;
+        }
+        piece += grapheme;
+        pieceWidth += w;
+    }
+    pieces.push(piece);
+    return pieces;
+}
+
+function wrapWords(paragraph: string, width: number): string[] {
+    const lines: string[] = [];
+    let line = "";
+    let lineWidth = 0;
+    let space = ""; // Spaces between the line so far and the next word
+
+    for (const token of paragraph.split(/( +)/)) {
+        if (token === "") {
+            continue;
+        }
+        if (token.startsWith(" ")) {
+            if (line === "" && lines.length === 0) {
+                line = token; // Keep the indentation of the paragraph
+                lineWidth = token.length;
+            } else {
+                space = token;
+            }
+            continue;
+        }
+
+        const tokenWidth = stringWidth(token);
+        if (lineWidth + space.length + tokenWidth <= width) {
+            line += space + token;
+            lineWidth += space.length + tokenWidth;
+        } else {
+            // Spaces at the break are dropped
+            if (line.trim() !== "") {
+                lines.push(line);
+            }
+            const pieces = breakGraphemes(token, width); // Words longer than a line are split
+            lines.push(...pieces.slice(0, -1));
+            line = pieces[pieces.length - 1];
+            lineWidth = stringWidth(line);
+        }
+        space = "";
+    }
+    lines.push(line);
+    return lines;
+}
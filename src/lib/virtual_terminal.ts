@@ -0,0 +1,535 @@
+// Virtual Terminal module for the Ghostty Graphics Library.
+// This module defines the VirtualTerminal class, a headless terminal that can be
+// used as the output of a KittyUtil. It interprets the escape sequences KittyUtil
+// emits (cursor movement, SGR colors at any color depth, erasing and Kitty graphics
+// commands) into a queryable cell grid and a list of image placements, so tests can
+// check what would be on screen without a real TTY.
+
+import { decodeBase64 } from "@std/encoding/base64";
+import { Cell, CellBuffer, blankCell } from "./cell_buffer.ts";
+import { ansi256ToRgb } from "./color.ts";
+import { graphemeWidth, graphemes } from "./text_width.ts";
+import { BOLD, DIM, ITALIC, REVERSE, STRIKETHROUGH, withUnderline } from "./text_style.ts";
+
+// Define types for clarity
+type Color = [number, number, number]; // [r, g, b]
+
+// An image received through the Kitty graphics protocol
+export interface VirtualImage {
+    id: number;
+    keys: { [key: string]: string }; // Control keys of the transmit command
+    data: Uint8Array; // Decoded payload (still compressed if o=z was used)
+    frames: VirtualImageFrame[]; // Animation frames added after the image itself (a=f)
+    animationControls: { [key: string]: string }[]; // Animation control commands (a=a), oldest first
+}
+
+// A frame added to an image
+export interface VirtualImageFrame {
+    keys: { [key: string]: string };
+    data: Uint8Array;
+}
+
+// An image displayed on screen
+export interface VirtualImagePlacement {
+    imageId: number;
+    placementId: number | undefined;
+    x: number; // Column of the top-left cell
+    y: number; // Row of the top-left cell
+    virtual: boolean; // Placed with U=1: shown by placeholder cells, x and y mean nothing
+    keys: { [key: string]: string }; // Control keys of the placement command
+}
+
+const ESC = "\x1b";
+// C0 controls and DEL
+function isControlChar(char: string): boolean {
+    const code = char.charCodeAt(0);
+    return code < 0x20 || code === 0x7f;
+}
+
+// SGR codes that turn on a text attribute
+const SGR_ATTRIBUTES: { [code: number]: number } = {
+    1: BOLD,
+    2: DIM,
+    3: ITALIC,
+    7: REVERSE,
+    9: STRIKETHROUGH
+};
+
+// Payloads that are not valid base64 are kept as empty data
+function decodePayload(payload: string): Uint8Array {
+    try {
+        return decodeBase64(payload);
+    } catch (_e) {
+        return new Uint8Array();
+    }
+}
+
+export class VirtualTerminal {
+    width: number;
+    height: number;
+    screen: CellBuffer;
+    cursor: [number, number]; // [x, y], 0-indexed
+    modes: Map<number, boolean>; // DEC private modes, e.g. 25 (cursor visible), 2026 (synchronized output)
+    images: Map<number, VirtualImage>;
+    placements: VirtualImagePlacement[];
+
+    private pen: Cell; // Style applied to printed characters
+    private savedScreen: CellBuffer | null; // Main screen while the alternate screen is active
+    private decoder: TextDecoder;
+    private pending: string; // Incomplete escape sequence from the previous write
+    private pendingImage: { keys: { [key: string]: string }; payload: string } | null; // Chunked transmission in progress
+    private nextImageId: number;
+
+    constructor(width: number = 80, height: number = 24) {
+        this.width = width;
+        this.height = height;
+        this.screen = new CellBuffer(width, height);
+        this.cursor = [0, 0];
+        this.modes = new Map([[25, true]]);
+        this.images = new Map();
+        this.placements = [];
+        this.pen = blankCell();
+        this.savedScreen = null;
+        this.decoder = new TextDecoder();
+        this.pending = "";
+        this.pendingImage = null;
+        this.nextImageId = 1 << 24; // Ids the terminal picks for anonymous images, out of the way of client ids
+    }
+
+    // Output sink interface used by KittyUtil
+    writeSync(p: Uint8Array): number {
+        this.write(this.decoder.decode(p, { stream: true }));
+        return p.length;
+    }
+
+    write(data: string): void {
+        const input = this.pending + data;
+        this.pending = "";
+
+        let i = 0;
+        while (i < input.length) {
+            const char = input[i];
+            if (char === ESC) {
+                const consumed = this._parseEscape(input, i);
+                if (consumed === 0) {
+                    this.pending = input.slice(i); // Wait for the rest of the sequence
+                    return;
+                }
+                i += consumed;
+                continue;
+            }
+
+            if (isControlChar(char)) {
+                if (char === "\r") {
+                    this.cursor[0] = 0;
+                } else if (char === "\n") {
+                    this._lineFeed();
+                } else if (char === "\b") {
+                    this.cursor[0] = Math.max(0, this.cursor[0] - 1);
+                }
+                i++;
+                continue;
+            }
+
+            // Print the run of text up to the next control character as grapheme clusters
+            let end = i + 1;
+            while (end < input.length && input[end] !== ESC && !isControlChar(input[end])) {
+                end++;
+            }
+            for (const grapheme of graphemes(input.slice(i, end))) {
+                this._print(grapheme);
+            }
+            i = end;
+        }
+    }
+
+    // Cell at column x, row y (0-indexed)
+    cellAt(x: number, y: number): Cell | undefined {
+        return this.screen.getCell(x, y);
+    }
+
+    // Text of one row, with trailing spaces removed
+    getLine(y: number): string {
+        let line = "";
+        for (let x = 0; x < this.width; x++) {
+            line += this.screen.getCell(x, y)?.char ?? "";
+        }
+        return line.trimEnd();
+    }
+
+    // Text of the whole screen, one line per row
+    getText(): string {
+        const lines: string[] = [];
+        for (let y = 0; y < this.height; y++) {
+            lines.push(this.getLine(y));
+        }
+        return lines.join("\n");
+    }
+
+    // Foreground color of the cell, or null for the default color
+    foregroundAt(x: number, y: number): Color | null | undefined {
+        return this.cellAt(x, y)?.fg;
+    }
+
+    // Background color of the cell, or null for the default color
+    backgroundAt(x: number, y: number): Color | null | undefined {
+        return this.cellAt(x, y)?.bg;
+    }
+
+    // Placements whose top-left cell is at the given position
+    placementsAt(x: number, y: number): VirtualImagePlacement[] {
+        return this.placements.filter(
+            (placement) => !placement.virtual && placement.x === x && placement.y === y
+        );
+    }
+
+    private _print(grapheme: string): void {
+        const width = graphemeWidth(grapheme);
+        if (width === 0) {
+            // Zero-width characters combine with the previous character
+            const [x, y] = this.cursor;
+            const previous = this.cellAt(x - 1, y)?.char === "" ? this.cellAt(x - 2, y) : this.cellAt(x - 1, y);
+            if (previous) {
+                previous.char += grapheme;
+            }
+            return;
+        }
+        if (this.cursor[0] + width > this.width) {
+            // Auto-wrap: the character does not fit on the rest of the line
+            this.cursor[0] = 0;
+            this._lineFeed();
+        }
+        const [x, y] = this.cursor;
+        const { fg, bg, attrs, underlineColor } = this.pen;
+        this.screen.setCell(x, y, grapheme, fg, bg, attrs, underlineColor);
+        if (width === 2) {
+            this.screen.setCell(x + 1, y, "", fg, bg, attrs, underlineColor);
+        }
+        this.cursor[0] = x + width;
+    }
+
+    private _lineFeed(): void {
+        if (this.cursor[1] < this.height - 1) {
+            this.cursor[1]++;
+            return;
+        }
+        // Scroll the screen up by one row
+        this.screen.cells.splice(0, this.width);
+        for (let x = 0; x < this.width; x++) {
+            this.screen.cells.push(blankCell());
+        }
+        for (const placement of this.placements) {
+            placement.y--;
+        }
+    }
+
+    // Parse the escape sequence starting at `start`. Returns the number of characters
+    // consumed, or 0 if the sequence is incomplete.
+    private _parseEscape(input: string, start: number): number {
+        if (start + 1 >= input.length) {
+            return 0;
+        }
+        const kind = input[start + 1];
+
+        if (kind === "[") {
+            // CSI: parameters, intermediates, then a final byte in @..~
+            let end = start + 2;
+            while (end < input.length && !(input[end] >= "@" && input[end] <= "~")) {
+                end++;
+            }
+            if (end >= input.length) {
+                return 0;
+            }
+            this._handleCsi(input.slice(start + 2, end), input[end]);
+            return end - start + 1;
+        }
+
+        if (kind === "_" || kind === "]" || kind === "P") {
+            // APC, OSC and DCS strings end with ST (ESC \), OSC may also end with BEL
+            let end = start + 2;
+            while (end < input.length) {
+                if (input[end] === "\x07" && kind === "]") {
+                    return end - start + 1;
+                }
+                if (input[end] === ESC) {
+                    if (end + 1 >= input.length) {
+                        return 0;
+                    }
+                    if (input[end + 1] === "\\") {
+                        if (kind === "_") {
+                            this._handleApc(input.slice(start + 2, end));
+                        }
+                        return end - start + 2;
+                    }
+                }
+                end++;
+            }
+            return 0;
+        }
+
+        // Other two-character sequences (ESC 7, ESC 8, ...) have no effect on the grid
+        return 2;
+    }
+
+    private _handleCsi(body: string, final: string): void {
+        const isPrivate = body.startsWith("?");
+        const paramText = isPrivate ? body.slice(1) : body;
+        if (/[^\d;:]/.test(paramText)) {
+            return; // Intermediate bytes (e.g. DECRQM "$p"); nothing to draw
+        }
+        const params = paramText === "" ? [] : paramText.split(";");
+        const num = (index: number, fallback: number) => {
+            const value = parseInt(params[index] ?? "", 10);
+            return isNaN(value) ? fallback : value;
+        };
+
+        if (isPrivate) {
+            if (final === "h" || final === "l") {
+                for (const param of params) {
+                    this._setMode(parseInt(param, 10), final === "h");
+                }
+            }
+            return;
+        }
+
+        switch (final) {
+            case "H":
+            case "f":
+                this._moveTo(num(1, 1) - 1, num(0, 1) - 1);
+                break;
+            case "A":
+                this._moveTo(this.cursor[0], this.cursor[1] - num(0, 1));
+                break;
+            case "B":
+                this._moveTo(this.cursor[0], this.cursor[1] + num(0, 1));
+                break;
+            case "C":
+                this._moveTo(this.cursor[0] + num(0, 1), this.cursor[1]);
+                break;
+            case "D":
+                this._moveTo(this.cursor[0] - num(0, 1), this.cursor[1]);
+                break;
+            case "G":
+                this._moveTo(num(0, 1) - 1, this.cursor[1]);
+                break;
+            case "J":
+                this._eraseDisplay(num(0, 0));
+                break;
+            case "K":
+                this._eraseLine(num(0, 0));
+                break;
+            case "m":
+                this._handleSgr(params);
+                break;
+        }
+    }
+
+    private _moveTo(x: number, y: number): void {
+        this.cursor = [
+            Math.max(0, Math.min(this.width - 1, x)),
+            Math.max(0, Math.min(this.height - 1, y))
+        ];
+    }
+
+    private _eraseCells(from: number, to: number): void {
+        for (let i = from; i < to; i++) {
+            this.screen.cells[i] = { ...blankCell(), bg: this.pen.bg };
+        }
+    }
+
+    private _eraseDisplay(mode: number): void {
+        const index = this.cursor[1] * this.width + Math.min(this.cursor[0], this.width - 1);
+        if (mode === 0) {
+            this._eraseCells(index, this.width * this.height);
+        } else if (mode === 1) {
+            this._eraseCells(0, index + 1);
+        } else {
+            this._eraseCells(0, this.width * this.height);
+            // Clearing the screen also removes image placements, except virtual ones which are not on it
+            this.placements = this.placements.filter((placement) => placement.virtual);
+        }
+    }
+
+    private _eraseLine(mode: number): void {
+        const rowStart = this.cursor[1] * this.width;
+        const index = rowStart + Math.min(this.cursor[0], this.width - 1);
+        if (mode === 0) {
+            this._eraseCells(index, rowStart + this.width);
+        } else if (mode === 1) {
+            this._eraseCells(rowStart, index + 1);
+        } else {
+            this._eraseCells(rowStart, rowStart + this.width);
+        }
+    }
+
+    private _handleSgr(params: string[]): void {
+        if (params.length === 0) {
+            params = ["0"];
+        }
+        for (let i = 0; i < params.length; i++) {
+            // Sub-parameters are separated by colons, e.g. 4:3 (curly underline) or 58:2::r:g:b
+            const sub = params[i].split(":");
+            const code = parseInt(sub[0], 10) || 0;
+
+            if (code === 38 || code === 48 || code === 58) {
+                let color: Color | null;
+                if (sub.length > 1) {
+                    const values = sub.slice(1);
+                    if (values[0] === "2" && values.length === 5) {
+                        values.splice(1, 1); // Skip the color space id
+                    }
+                    color = this._extendedColor(values);
+                } else {
+                    const mode = params[i + 1];
+                    const length = mode === "2" ? 4 : mode === "5" ? 2 : 1;
+                    color = this._extendedColor(params.slice(i + 1, i + 1 + length));
+                    i += length;
+                }
+                if (code === 38) {
+                    this.pen.fg = color;
+                } else if (code === 48) {
+                    this.pen.bg = color;
+                } else {
+                    this.pen.underlineColor = color;
+                }
+            } else if (code === 0) {
+                this.pen = blankCell();
+            } else if (SGR_ATTRIBUTES[code] !== undefined) {
+                this.pen.attrs |= SGR_ATTRIBUTES[code];
+            } else if (code === 22) {
+                this.pen.attrs &= ~(BOLD | DIM);
+            } else if (code === 23 || code === 27 || code === 29) {
+                this.pen.attrs &= ~SGR_ATTRIBUTES[code - 20]; // Turn off 3, 7 and 9
+            } else if (code === 4) {
+                this.pen.attrs = withUnderline(this.pen.attrs, sub.length > 1 ? parseInt(sub[1], 10) || 0 : 1);
+            } else if (code === 21) {
+                this.pen.attrs = withUnderline(this.pen.attrs, 2); // Double underline
+            } else if (code === 24) {
+                this.pen.attrs = withUnderline(this.pen.attrs, 0);
+            } else if ((code >= 30 && code <= 37) || (code >= 90 && code <= 97)) {
+                this.pen.fg = ansi256ToRgb(code >= 90 ? code - 82 : code - 30);
+            } else if ((code >= 40 && code <= 47) || (code >= 100 && code <= 107)) {
+                this.pen.bg = ansi256ToRgb(code >= 100 ? code - 92 : code - 40);
+            } else if (code === 39) {
+                this.pen.fg = null;
+            } else if (code === 49) {
+                this.pen.bg = null;
+            } else if (code === 59) {
+                this.pen.underlineColor = null;
+            }
+        }
+    }
+
+    // Color from the parameters after 38/48/58: "2", r, g, b or "5", index
+    private _extendedColor(values: string[]): Color | null {
+        if (values[0] === "2") {
+            return [parseInt(values[1], 10) || 0, parseInt(values[2], 10) || 0, parseInt(values[3], 10) || 0];
+        }
+        if (values[0] === "5") {
+            return ansi256ToRgb(parseInt(values[1], 10) || 0);
+        }
+        return null;
+    }
+
+    private _setMode(mode: number, enabled: boolean): void {
+        if (mode === 1049 && enabled !== (this.modes.get(1049) ?? false)) {
+            if (enabled) {
+                // Switch to a blank alternate screen, keeping the main screen for later
+                this.savedScreen = this.screen;
+                this.screen = new CellBuffer(this.width, this.height);
+            } else if (this.savedScreen) {
+                this.screen = this.savedScreen;
+                this.savedScreen = null;
+            }
+        }
+        this.modes.set(mode, enabled);
+    }
+
+    // Kitty graphics command: "G" followed by key=value pairs, then ";" and the payload
+    private _handleApc(body: string): void {
+        if (!body.startsWith("G")) {
+            return;
+        }
+        const separator = body.indexOf(";");
+        const control = separator === -1 ? body.slice(1) : body.slice(1, separator);
+        const payload = separator === -1 ? "" : body.slice(separator + 1);
+
+        const keys: { [key: string]: string } = {};
+        for (const pair of control.split(",")) {
+            const [key, value] = pair.split("=");
+            if (key) {
+                keys[key] = value ?? "";
+            }
+        }
+
+        // Chunked transmission: the first chunk carries the keys, the rest only m=
+        if (this.pendingImage) {
+            this.pendingImage.payload += payload;
+            if (keys.m !== "1") {
+                const { keys: firstKeys, payload: fullPayload } = this.pendingImage;
+                this.pendingImage = null;
+                this._handleGraphicsCommand(firstKeys, fullPayload);
+            }
+            return;
+        }
+        if (keys.m === "1") {
+            this.pendingImage = { keys, payload };
+            return;
+        }
+        this._handleGraphicsCommand(keys, payload);
+    }
+
+    private _handleGraphicsCommand(keys: { [key: string]: string }, payload: string): void {
+        const action = keys.a ?? "t";
+        const imageId = keys.i !== undefined ? parseInt(keys.i, 10) : undefined;
+        const placementId = keys.p !== undefined ? parseInt(keys.p, 10) : undefined;
+
+        if (action === "t" || action === "T") {
+            const id = imageId ?? this.nextImageId++;
+            this.images.set(id, { id, keys, data: decodePayload(payload), frames: [], animationControls: [] });
+            if (action === "T") {
+                this._place(id, placementId, keys);
+            }
+        } else if (action === "f" && imageId !== undefined) {
+            this.images.get(imageId)?.frames.push({ keys, data: decodePayload(payload) });
+        } else if (action === "a" && imageId !== undefined) {
+            this.images.get(imageId)?.animationControls.push(keys);
+        } else if (action === "p" && imageId !== undefined) {
+            this._place(imageId, placementId, keys);
+        } else if (action === "d") {
+            this._delete(keys, imageId, placementId);
+        }
+    }
+
+    private _place(imageId: number, placementId: number | undefined, keys: { [key: string]: string }): void {
+        // Placing again with the same image and placement id moves the placement
+        if (placementId !== undefined) {
+            this.placements = this.placements.filter(
+                (placement) => !(placement.imageId === imageId && placement.placementId === placementId)
+            );
+        }
+        const virtual = keys.U === "1";
+        this.placements.push({ imageId, placementId, x: this.cursor[0], y: this.cursor[1], virtual, keys });
+    }
+
+    private _delete(keys: { [key: string]: string }, imageId: number | undefined, placementId: number | undefined): void {
+        const what = keys.d ?? "a";
+        const freeData = what === what.toUpperCase();
+
+        if (what === "a" || what === "A") {
+            this.placements = [];
+            if (freeData) {
+                this.images.clear();
+            }
+        } else if ((what === "i" || what === "I") && imageId !== undefined) {
+            this.placements = this.placements.filter(
+                (placement) =>
+                    placement.imageId !== imageId ||
+                    (placementId !== undefined && placement.placementId !== placementId)
+            );
+            if (freeData && placementId === undefined) {
+                this.images.delete(imageId);
+            }
+        }
+    }
+}
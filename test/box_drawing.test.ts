@@ -0,0 +1,41 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { mergeBoxChars } from "../src/lib/box_drawing.ts";
+import { Group, Rectangle } from "../src/lib/components.ts";
+import { renderSnapshot } from "../src/lib/snapshot.ts";
+
+Deno.test("mergeBoxChars: lines meeting in a cell are joined", () => {
+    assertEquals(mergeBoxChars("┐", "┌"), "┬");
+    assertEquals(mergeBoxChars("│", "─"), "┼");
+    assertEquals(mergeBoxChars("╮", "│"), "┤", "Rounded corners join like light ones");
+    assertEquals(mergeBoxChars("─", "╚"), "╩", "The result takes the weight of the new line");
+    assertEquals(mergeBoxChars("a", "┌"), "┌", "Other characters are replaced");
+});
+
+Deno.test("Rectangle: titled frames share edges", () => {
+    const root = new Group();
+    root.addChild(new Rectangle([6, 3], [255, 255, 255], false, [0, 0], { title: "A" }));
+    root.addChild(new Rectangle([6, 3], [255, 255, 255], false, [5, 0], {
+        footer: "B",
+        footerAlign: "right",
+        colors: { right: [255, 0, 0] }
+    }));
+
+    const terminal = renderSnapshot(root, [11, 3]);
+    assertEquals(terminal.getText(), [
+        "┌ A ─┬────┐",
+        "│    │    │",
+        "└────┴─ B ┘"
+    ].join("\n"));
+    assertEquals(terminal.foregroundAt(10, 1), [255, 0, 0], "Right edge has its own color");
+    assertEquals(terminal.foregroundAt(10, 0), [255, 255, 255], "Corners take the top edge color");
+});
+
+Deno.test("Rectangle: border styles", () => {
+    const root = new Group();
+    root.addChild(new Rectangle([4, 2], [255, 255, 255], false, [0, 0], { style: "double" }));
+    root.addChild(new Rectangle([4, 2], [255, 255, 255], false, [4, 0], { style: "rounded" }));
+    root.addChild(new Rectangle([4, 2], [255, 255, 255], true, [8, 0], { style: "heavy" }));
+
+    const terminal = renderSnapshot(root, [12, 2]);
+    assertEquals(terminal.getText(), "╔══╗╭──╮┏━━┓\n╚══╝╰──╯┗━━┛");
+});
@@ -1,7 +1,10 @@
 import { InputManager } from "../src/lib/input_handler.ts";
 import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
 import { Scene } from "../src/lib/scene.ts";
+import { KittyUtil } from "../src/lib/kitty.ts";
+import { VirtualTerminal } from "../src/lib/virtual_terminal.ts";
 import { TextInput } from "../src/lib/input_components.ts";
+import { assertSnapshot } from "../src/lib/snapshot.ts";
 import { ChatDisplay } from "../test/chat_ui.ts"; // Import ChatDisplay from the demo
 
 // Mock Scene class for testing purposes
@@ -109,4 +112,25 @@ Deno.test("Chat UI: Simulate sending message with Enter key", () => {
     assertEquals(sentMessageContent, "test", "sendMessage should receive the correct message content");
     // Note: We are not testing the ChatDisplay's addMessage directly here,
     // but rather that the TextInput's Enter handler triggers the intended action.
-});
\ No newline at end of file
+});
+
+Deno.test("Chat UI: messages and input are drawn on screen", async () => {
+    const scene = new Scene([30, 8], [0, 0], false, [30, 30, 50], 0, new KittyUtil(new VirtualTerminal(30, 8)));
+
+    const chatDisplay = new ChatDisplay([30, 5], [0, 0]);
+    scene.addChild(chatDisplay);
+    chatDisplay.addMessage("User1", "hello", [255, 100, 100]);
+    chatDisplay.addMessage("User2", "hi there", [100, 255, 100]);
+
+    const messageInput = new TextInput(
+        [1, 6], // Position
+        [18, 1], // Size
+        [50, 50, 70], // Background color
+        [255, 255, 255], // Text color
+        [70, 70, 100], // Cursor color
+        "Enter your message" // Placeholder text
+    );
+    scene.addChild(messageInput);
+
+    await assertSnapshot(scene, new URL("./__snapshots__/chat_ui.json", import.meta.url));
+});
@@ -2,11 +2,12 @@
 // This script demonstrates how to create a basic chat interface using the library's components.
 
 import { Node } from "../src/lib/node.ts";
-import { Rectangle, Text, Group } from "../src/lib/components.ts";
+import { Rectangle, Group } from "../src/lib/components.ts";
 import { Scene } from "../src/lib/scene.ts";
+import { RichText } from "../src/lib/rich_text.ts";
 import { Button, TextInput, FocusableComponent } from "../src/lib/input_components.ts";
 import { InputManager } from "../src/lib/input_handler.ts";
-import { KittyUtil } from "../src/lib/kitty.ts"; // Import KittyUtil for terminal reset
+import { TerminalSession } from "../src/lib/terminal_session.ts";
 
 // Define types for clarity
 type Size = [number, number]; // [width, height]
@@ -22,8 +23,7 @@ const USER_COLORS: Color[] = [
 ];
 
 export class ChatDisplay extends Group {
-    size: Size;
-    messages: Text[];
+    messages: RichText[];
     maxMessages: number;
 
     constructor(size: Size, position: Position = [0, 0]) {
@@ -33,14 +33,21 @@ export class ChatDisplay extends Group {
         this.maxMessages = size[1] - 2; // Leave space for padding
     }
 
-    addMessage(user: string, text: string, color: Color): void {
-        // Format the message
-        const formattedMessage = `${user}: ${text}`;
+    override get size(): Size {
+        return super.size!;
+    }
 
-        // Create a Text component for the message
-        const messageText = new Text(
-            formattedMessage,
-            color,
+    override set size(value: Size) {
+        super.size = value;
+    }
+
+    addMessage(user: string, text: string, color: Color): void {
+        // User name in the user's color, message in the default color
+        const messageText = new RichText(
+            [
+                { text: user, color, style: { bold: true } },
+                { text: `: ${text}` }
+            ],
             [1, this.messages.length] // Position based on current number of messages
         );
         this.addChild(messageText);
@@ -64,10 +71,13 @@ export class ChatDisplay extends Group {
 }
 
 
+// Owns the terminal while the demo runs: alternate screen, hidden cursor, raw input.
+// It restores everything on exit, Ctrl+C, SIGTERM and uncaught errors.
+const session = new TerminalSession();
+
 async function main() {
-    // Clear the screen first
-    const kittyUtil = new KittyUtil();
-    kittyUtil.clearScreen();
+    // Take over the terminal
+    session.start();
 
     // Create a scene
     const scene = new Scene(undefined, [0, 0], true, [30, 30, 50]);
@@ -117,7 +127,7 @@ async function main() {
             messageInput.value = "";
             // Manually update display after clearing (accessing private method for now)
             (messageInput as any)["_updateTextDisplay"]();
-            scene.renderScene(); // Re-render the scene
+            scene.requestRender(); // Re-render the scene
         }
     };
 
@@ -134,6 +144,8 @@ async function main() {
 
     // Set up input manager
     const inputManager = new InputManager(scene);
+    inputManager.attachSession(session);
+    scene.attachSession(session);
 
     // Set initial focus to the message input
     scene.setFocus(messageInput);
@@ -155,6 +167,9 @@ async function main() {
     // Register Escape key to exit
     scene.registerKeyboardHandler('escape', exitApp);
 
+    // Ask the terminal what it supports (synchronized output, graphics, cell size)
+    await scene.renderer.detectCapabilities();
+
     // Render the scene
     scene.renderScene();
 
@@ -166,35 +181,16 @@ async function main() {
         await new Promise(resolve => setTimeout(resolve, 100)); // Small delay to prevent busy loop
     }
 
-    // Clean up
-    await inputManager.stop();
-    // Reset terminal
-    kittyUtil.resetColors();
-    // Show cursor
-    Deno.stdout.writeSync(new TextEncoder().encode("\x1b[?25h"));
+    // Clean up: stops input and restores the terminal
+    await session.end();
 }
 
-// Set up signal handler for clean exit (Ctrl+C)
-Deno.addSignalListener("SIGINT", async () => {
-    console.log("\nExiting...");
-    // Reset terminal settings before exiting
-    const kittyUtil = new KittyUtil();
-    kittyUtil.resetColors();
-    // Show cursor
-    Deno.stdout.writeSync(new TextEncoder().encode("\x1b[?25h"));
-    Deno.exit(0);
-});
-
-
 // Run the main function
 if (import.meta.main) {
     main().catch(async (err) => {
+        // Restore the terminal first so the error is printed on the normal screen
+        session.restore();
         console.error("Application error:", err);
-        // Ensure terminal is reset on error
-        const kittyUtil = new KittyUtil();
-        kittyUtil.resetColors();
-        // Show cursor
-        Deno.stdout.writeSync(new TextEncoder().encode("\x1b[?25h"));
         Deno.exit(1);
     });
 }
\ No newline at end of file
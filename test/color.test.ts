@@ -0,0 +1,54 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { detectColorDepth, rgbToAnsi16, rgbToAnsi256 } from "../src/lib/color.ts";
+import { KittyUtil } from "../src/lib/kitty.ts";
+import { VirtualTerminal } from "../src/lib/virtual_terminal.ts";
+
+// Environment made of the given variables only
+function fakeEnv(vars: { [name: string]: string }) {
+    return { get: (name: string) => vars[name] };
+}
+
+Deno.test("detectColorDepth: NO_COLOR, FORCE_COLOR, COLORTERM and TERM", () => {
+    assertEquals(detectColorDepth(fakeEnv({ COLORTERM: "truecolor", TERM: "xterm-256color" })), "truecolor");
+    assertEquals(detectColorDepth(fakeEnv({ TERM: "xterm-256color" })), "256");
+    assertEquals(detectColorDepth(fakeEnv({ TERM: "xterm-kitty" })), "truecolor");
+    assertEquals(detectColorDepth(fakeEnv({ TERM: "xterm" })), "16");
+    assertEquals(detectColorDepth(fakeEnv({ TERM: "dumb" })), "none");
+    assertEquals(detectColorDepth(fakeEnv({ NO_COLOR: "1", COLORTERM: "truecolor" })), "none");
+    assertEquals(detectColorDepth(fakeEnv({ FORCE_COLOR: "2", TERM: "dumb" })), "256");
+    assertEquals(detectColorDepth({ get: () => { throw new Error("Requires env access"); } }), "truecolor");
+});
+
+Deno.test("Color mapping: nearest palette entries", () => {
+    assertEquals(rgbToAnsi256(255, 0, 0), 196);
+    assertEquals(rgbToAnsi256(0, 0, 0), 16);
+    assertEquals(rgbToAnsi256(128, 128, 128), 244, "Grays should use the grayscale ramp");
+    assertEquals(rgbToAnsi16(250, 10, 10), 9);
+    assertEquals(rgbToAnsi16(20, 20, 20), 0);
+});
+
+Deno.test("KittyUtil: colors are downsampled to the color depth", () => {
+    const terminal = new VirtualTerminal(10, 1);
+    const kittyUtil = new KittyUtil(terminal, "256");
+    kittyUtil.setForegroundColor(255, 0, 0);
+    kittyUtil.setForegroundColor(250, 5, 5); // Same palette entry
+    kittyUtil.setBackgroundColor(0, 0, 0);
+    kittyUtil.write("a");
+    kittyUtil.flush();
+    assertEquals(terminal.foregroundAt(0, 0), [255, 0, 0]);
+
+    const output: string[] = [];
+    const sink = { writeSync: (p: Uint8Array) => { output.push(new TextDecoder().decode(p)); return p.length; } };
+    const sixteen = new KittyUtil(sink, "16");
+    sixteen.setForegroundColor(255, 0, 0);
+    sixteen.setBackgroundColor(0, 0, 230);
+    sixteen.flush();
+    assertEquals(output, ["\x1b[91m\x1b[44m"]);
+
+    const monochrome = new KittyUtil(sink, "none");
+    monochrome.setForegroundColor(255, 0, 0);
+    monochrome.resetColors();
+    monochrome.write("plain");
+    monochrome.flush();
+    assertEquals(output[1], "plain", "Monochrome output should contain no SGR sequences");
+});
@@ -5,7 +5,7 @@
 import { Node } from "../src/lib/node.ts";
 import { Rectangle, Text, Image, Group } from "../src/lib/components.ts";
 import { Renderer } from "../src/lib/renderer.ts";
-import { KittyUtil } from "../src/lib/kitty.ts";
+import { TerminalSession } from "../src/lib/terminal_session.ts";
 import { InputManager } from "../src/lib/input_handler.ts"; // Assuming InputManager is needed for interaction
 
 // Define types for clarity
@@ -126,7 +126,7 @@ function createDemoScene(): Group {
     // Add some sample components to showcase
     // 1. A filled rectangle
     const rect1 = new Rectangle(
-        [10, 5],
+        [20, 5],
         [200, 50, 50],
         true,
         [5, 4]
@@ -141,12 +141,13 @@ function createDemoScene(): Group {
     );
     content.addChild(rect1Label);
 
-    // 2. An outlined rectangle
+    // 2. An outlined rectangle with a rounded, titled border
     const rect2 = new Rectangle(
-        [10, 5],
+        [20, 5],
         [50, 200, 50],
         false,
-        [25, 4]
+        [25, 4],
+        { style: "rounded", title: "Outline", titleAlign: "center" }
     );
     content.addChild(rect2);
 
@@ -164,7 +165,7 @@ function createDemoScene(): Group {
 
     // Parent rectangle
     const parentRect = new Rectangle(
-        [10, 5],
+        [20, 5],
         [50, 50, 200],
         true,
         [0, 0]
@@ -173,7 +174,7 @@ function createDemoScene(): Group {
 
     // Child rectangle (positioned relative to parent)
     const childRect = new Rectangle(
-        [4, 2],
+        [8, 2],
         [200, 200, 50],
         true,
         [3, 1]
@@ -230,16 +231,13 @@ function createDemoScene(): Group {
         );
         imgGroup.addChild(imgBg);
 
-        // Image
-        // Note: The Python code used pixel size for the image, but character position.
-        // The Deno Image component needs to handle this conversion or the KittyUtil
-        // displayImage method needs to accept character positions and convert.
-        // Assuming the Deno Image component/KittyUtil handles character positions for now.
+        // Image, fitted into a box of 8x4 cells keeping its aspect ratio
         const img = new Image(
             imagePath,
-            [48, 48], // Size in pixels as per Python example, might need adjustment
-            [1, 1] // Position relative to imgGroup in characters
+            [8, 4], // Size in cells
+            [1, 1] // Position relative to imgGroup in cells
         );
+        img.objectFit = "contain";
         imgGroup.addChild(img);
 
         // Image label
@@ -262,32 +260,32 @@ function createDemoScene(): Group {
     return root;
 }
 
+// Owns the terminal while the demo runs: alternate screen, hidden cursor, raw input.
+// It restores everything on exit, Ctrl+C, SIGTERM and uncaught errors.
+const session = new TerminalSession();
+
 async function main() {
-    // Clear the screen first
+    // Take over the terminal
     // Note: Deno.consoleSize() might not work correctly after clearing the screen
     // with escape codes. It's better to get the size first.
-    const kittyUtil = new KittyUtil();
-    kittyUtil.clearScreen();
+    session.start();
 
     // Create the scene
     const root = createDemoScene();
 
     // Create a renderer and render the scene
-    const renderer = new Renderer(root, kittyUtil);
+    const renderer = new Renderer(root, session.kittyUtil);
     renderer.renderScene();
 
     // Set up input handling to exit on Enter
     const inputManager = new InputManager();
+    inputManager.attachSession(session);
     // Create a dummy scene object for the InputManager to interact with
     // In a real app, you'd pass the actual Scene instance if it managed focus/input
     const dummyScene = {
         handleKey: (key: string) => {
             if (key === 'enter') {
-                console.log("\nExiting...");
                 inputManager.stop(); // Stop the input handler
-                // Reset terminal settings before exiting
-                kittyUtil.resetColors();
-                // Deno.exit(0); // Exit the process
             }
             return false; // Key not handled by dummy scene
         }
@@ -299,52 +297,20 @@ async function main() {
     await inputManager.start();
 
     // Keep the program running until inputManager is stopped
-    // A simple way is to wait indefinitely or until a signal is received
-    // Deno does not have a direct equivalent to Python's input() that
-    // works well with raw terminal mode and async input handling.
-    // We'll rely on the input handler to stop the loop and the program
-    // to exit when the main async function completes.
-
-    // To keep the process alive while the input handler runs in the background:
-    // We can use a promise that never resolves or wait for a signal.
-    // For a simple demo, we can just wait for the input handler to stop.
     // The input handler's _inputLoop promise will keep the process alive.
     // When inputManager.stop() is called, the loop will break and the promise will resolve.
-
-    // Wait for the input loop promise to resolve (when stop is called)
     if (inputManager["keyboardHandler"]["inputLoopPromise"]) {
          await inputManager["keyboardHandler"]["inputLoopPromise"];
     }
 
-
-    // Reset terminal settings (also handled in inputManager.stop() and signal handler)
-    kittyUtil.resetColors();
-    // Show cursor (also handled in inputManager.stop() and signal handler)
-    // Deno.stdout.writeSync(new TextEncoder().encode("\x1b[?25h"));
-
+    // Restore the terminal
+    await session.end();
 }
 
-// Set up signal handler for clean exit (Ctrl+C)
-// Note: Deno's signal handling is different from Python's.
-// We need to listen for the "SIGINT" signal.
-Deno.addSignalListener("SIGINT", () => {
-    console.log("\nExiting...");
-    // Reset terminal settings before exiting
-    const kittyUtil = new KittyUtil();
-    kittyUtil.resetColors();
-    // Show cursor
-    Deno.stdout.writeSync(new TextEncoder().encode("\x1b[?25h"));
-    Deno.exit(0);
-});
-
-
 // Run the main function
 main().catch((err) => {
+    // Restore the terminal first so the error is printed on the normal screen
+    session.restore();
     console.error("Application error:", err);
-    // Ensure terminal is reset on error
-    const kittyUtil = new KittyUtil();
-    kittyUtil.resetColors();
-    // Show cursor
-    Deno.stdout.writeSync(new TextEncoder().encode("\x1b[?25h"));
     Deno.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,408 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+    ImageFormatError,
+    compressImage,
+    fitImage,
+    imagePixelSize,
+    loadImage,
+    readPngSize
+} from "../src/lib/image_data.ts";
+import { AnimatedImage, Group, Image } from "../src/lib/components.ts";
+import { KittyUtil, isLocalTerminal } from "../src/lib/kitty.ts";
+import { Renderer } from "../src/lib/renderer.ts";
+import { VirtualTerminal } from "../src/lib/virtual_terminal.ts";
+import { idToColor, placeholderCell } from "../src/lib/unicode_placeholder.ts";
+
+// PNG file with a real header and `padding` bytes of filler data. Checksums are
+// left at zero, nothing here decodes the image.
+function fakePng(width: number, height: number, padding: number = 0): Uint8Array {
+    const bytes = new Uint8Array(8 + 25 + 12 + padding);
+    bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(8, 13);
+    bytes.set(new TextEncoder().encode("IHDR"), 12);
+    view.setUint32(16, width);
+    view.setUint32(20, height);
+    bytes.set([8, 6], 24); // 8 bit RGBA
+    view.setUint32(33, padding);
+    bytes.set(new TextEncoder().encode("IDAT"), 37);
+    for (let i = 0; i < padding; i++) {
+        bytes[41 + i] = i % 251;
+    }
+    return bytes;
+}
+
+Deno.test("readPngSize: reads the size from the IHDR chunk", () => {
+    assertEquals(readPngSize(fakePng(640, 480)), [640, 480]);
+    assertThrows(() => readPngSize(new TextEncoder().encode("GIF89a not a png at all")), ImageFormatError);
+});
+
+Deno.test("loadImage: reads files from disk", () => {
+    const path = Deno.makeTempFileSync({ suffix: ".png" });
+    try {
+        Deno.writeFileSync(path, fakePng(3, 2));
+        const image = loadImage(path);
+        assertEquals([image.width, image.height], [3, 2]);
+        assertEquals(image.data, fakePng(3, 2));
+    } finally {
+        Deno.removeSync(path);
+    }
+});
+
+Deno.test("imagePixelSize: a file rewritten in place is read again", () => {
+    const path = Deno.makeTempFileSync({ suffix: ".png" });
+    try {
+        Deno.writeFileSync(path, fakePng(3, 2));
+        Deno.utimeSync(path, 1000, 1000);
+        assertEquals(imagePixelSize(path), [3, 2]);
+        Deno.writeFileSync(path, fakePng(30, 20));
+        Deno.utimeSync(path, 2000, 2000);
+        assertEquals(imagePixelSize(path), [30, 20]);
+    } finally {
+        Deno.removeSync(path);
+    }
+});
+
+Deno.test("loadImage: raw pixels must match their size", () => {
+    const image = loadImage({ format: "rgb", width: 2, height: 1, data: new Uint8Array(6) });
+    assertEquals([image.format, image.width, image.height], ["rgb", 2, 1]);
+    assertThrows(
+        () => loadImage({ format: "rgba", width: 2, height: 2, data: new Uint8Array(12) }),
+        ImageFormatError
+    );
+});
+
+Deno.test("fitImage: object-fit modes in cells", () => {
+    // A 100x50 image in a box of 10x5 cells of 10x20 pixels, i.e. 100x100 pixels
+    const cell: [number, number] = [10, 20];
+    assertEquals(fitImage([100, 50], [10, 5], cell, "stretch"), { columns: 10, rows: 5, offset: [0, 0] });
+    assertEquals(fitImage([100, 50], [10, 5], cell, "contain"), {
+        columns: 10,
+        rows: 3,
+        offset: [0, 1],
+        crop: undefined
+    });
+    assertEquals(fitImage([100, 50], [10, 5], cell, "cover"), {
+        columns: 10,
+        rows: 5,
+        offset: [0, 0],
+        crop: { x: 25, y: 0, width: 50, height: 50 }
+    });
+    assertEquals(fitImage([100, 50], [10, 5], cell, "none"), {
+        columns: 10,
+        rows: 3,
+        offset: [0, 1],
+        crop: undefined
+    });
+    assertEquals(fitImage([300, 300], [10, 5], cell, "none"), {
+        columns: 10,
+        rows: 5,
+        offset: [0, 0],
+        crop: { x: 100, y: 100, width: 100, height: 100 }
+    });
+});
+
+Deno.test("Image: objectFit sets the cells and source rectangle of the placement", () => {
+    const terminal = new VirtualTerminal(20, 10);
+    const root = new Group();
+    const photo = new Image(fakePng(100, 50), [10, 5], [2, 1]);
+    root.addChild(photo);
+    const renderer = new Renderer(root, new KittyUtil(terminal), [20, 10]);
+    renderer.cellPixelSize = [10, 20];
+    renderer.renderScene();
+
+    let [placement] = terminal.placements;
+    assertEquals([placement.x, placement.y, placement.keys.c, placement.keys.r], [2, 2, "10", "3"]);
+
+    photo.objectFit = "cover";
+    renderer.renderScene();
+    [placement] = terminal.placements;
+    assertEquals(terminal.placements.length, 1);
+    assertEquals([placement.x, placement.y, placement.keys.c, placement.keys.r], [2, 1, "10", "5"]);
+    assertEquals([placement.keys.x, placement.keys.y, placement.keys.w, placement.keys.h], ["25", "0", "50", "50"]);
+
+    photo.objectFit = "none";
+    renderer.renderScene();
+    [placement] = terminal.placements;
+    assertEquals([placement.x, placement.y, placement.keys.c, placement.keys.w], [2, 2, undefined, undefined]);
+});
+
+Deno.test("KittyUtil: raw pixels are sent with their format and size, compressed on request", async () => {
+    const pixels = new Uint8Array(64 * 64 * 4).fill(200); // Flat color compresses well
+    const raw = { format: "rgba" as const, width: 64, height: 64, data: pixels };
+    const compressed = await compressImage(raw);
+    assertEquals(compressed.data.length < pixels.length / 10, true, "Flat pixels should shrink");
+
+    const terminal = new VirtualTerminal(10, 2);
+    const kittyUtil = new KittyUtil(terminal);
+    kittyUtil.transmitImage(raw);
+    kittyUtil.transmitImage(compressed);
+    kittyUtil.flush();
+
+    const [plain, deflated] = [terminal.images.get(1)!, terminal.images.get(2)!];
+    assertEquals([plain.keys.f, plain.keys.s, plain.keys.v, plain.keys.o], ["32", "64", "64", undefined]);
+    assertEquals(plain.data, pixels);
+    assertEquals(deflated.keys.o, "z");
+
+    const inflated = new Blob([new Uint8Array(deflated.data)]).stream().pipeThrough(new DecompressionStream("deflate"));
+    assertEquals(new Uint8Array(await new Response(inflated).arrayBuffer()), pixels, "Data is zlib deflated");
+});
+
+Deno.test("KittyUtil: images can be sent as files or shared memory", () => {
+    const png = fakePng(4, 4, 100);
+    const path = Deno.makeTempFileSync({ suffix: ".png" });
+    Deno.writeFileSync(path, png);
+    const terminal = new VirtualTerminal(10, 2);
+    const decoder = new TextDecoder();
+    try {
+        const kittyUtil = new KittyUtil(terminal, "truecolor", "file");
+        kittyUtil.transmitImage(path);
+        kittyUtil.transmitImage(png); // Bytes have no path, so they are sent inline
+        kittyUtil.imageTransmission = "temp-file";
+        kittyUtil.transmitImage(fakePng(4, 4, 200));
+        kittyUtil.flush();
+
+        const [file, inline, temp] = [1, 2, 3].map((id) => terminal.images.get(id)!);
+        assertEquals(file.keys.t, "f");
+        assertEquals(decoder.decode(file.data), Deno.realPathSync(path), "Payload is the file's path");
+        assertEquals(inline.keys.t, "d");
+        assertEquals(inline.data, png);
+        assertEquals(temp.keys.t, "t");
+        const tempPath = decoder.decode(temp.data);
+        assertEquals(tempPath.includes("tty-graphics-protocol"), true, "Terminals only delete files named like this");
+        assertEquals(Deno.readFileSync(tempPath), fakePng(4, 4, 200));
+        Deno.removeSync(tempPath); // The terminal would have deleted it
+
+        if (Deno.build.os === "linux") {
+            kittyUtil.imageTransmission = "shared-memory";
+            kittyUtil.transmitImage(fakePng(4, 4, 300));
+            kittyUtil.flush();
+            const shared = terminal.images.get(4)!;
+            assertEquals(shared.keys.t, "s");
+            const name = decoder.decode(shared.data);
+            assertEquals(Deno.readFileSync(`/dev/shm${name}`), fakePng(4, 4, 300));
+            Deno.removeSync(`/dev/shm${name}`);
+        }
+    } finally {
+        Deno.removeSync(path);
+    }
+});
+
+Deno.test("KittyUtil: a file sent by path is not read into memory", () => {
+    const path = Deno.makeTempFileSync({ suffix: ".png" });
+    Deno.writeFileSync(path, fakePng(4, 4, 100));
+    const terminal = new VirtualTerminal(10, 2);
+    const readFileSync = Deno.readFileSync;
+    Deno.readFileSync = () => {
+        throw new Error("The whole file was read");
+    };
+    try {
+        const kittyUtil = new KittyUtil(terminal, "truecolor", "file");
+        kittyUtil.transmitImage(path);
+        kittyUtil.flush();
+        assertEquals(terminal.images.get(1)!.keys.t, "f");
+    } finally {
+        Deno.readFileSync = readFileSync;
+        Deno.removeSync(path);
+    }
+});
+
+Deno.test("isLocalTerminal: SSH sessions are remote", () => {
+    const env = (vars: { [name: string]: string }) => ({ get: (name: string) => vars[name] });
+    assertEquals(isLocalTerminal(env({ TERM: "xterm-kitty" })), true);
+    assertEquals(isLocalTerminal(env({ SSH_CONNECTION: "10.0.0.1 52000 10.0.0.2 22" })), false);
+    assertEquals(isLocalTerminal(env({ SSH_TTY: "/dev/pts/3" })), false);
+});
+
+Deno.test("Image: PNG data is sent in chunks and placed at the node's position", () => {
+    const png = fakePng(16, 16, 5000); // More than one 4096-byte chunk once encoded
+    const terminal = new VirtualTerminal(20, 5);
+    let output = "";
+    const kittyUtil = new KittyUtil({
+        writeSync(p: Uint8Array): number {
+            output += new TextDecoder().decode(p);
+            return terminal.writeSync(p);
+        }
+    });
+    const root = new Group();
+    root.addChild(new Image(png, [4, 2], [3, 1]));
+
+    new Renderer(root, kittyUtil, [20, 5]).renderScene();
+
+    // Graphics commands carrying a payload
+    const chunks = output.split("\x1b\\")
+        .map((part) => part.slice(part.indexOf("\x1b_G")) + "\x1b\\")
+        .filter((command) => command.startsWith("\x1b_G") && command.includes(";"));
+    assertEquals(chunks.length, 2);
+    assertEquals(chunks[0].startsWith("\x1b_Ga=t,f=100,t=d,i=1,q=2,m=1;"), true, "First chunk carries the keys");
+    assertEquals(chunks[1].startsWith("\x1b_Gm=0;"), true, "Last chunk only has m=0");
+    assertEquals(chunks[0].length - "\x1b_Ga=t,f=100,t=d,i=1,q=2,m=1;\x1b\\".length, 4096);
+
+    const [placement] = terminal.placementsAt(3, 1);
+    assertEquals(placement.keys.c, "4");
+    assertEquals(terminal.images.get(placement.imageId)!.data, png, "Terminal receives the file unchanged");
+});
+
+Deno.test("Renderer: images are transmitted once, moved in place and deleted with their node", () => {
+    const png = fakePng(8, 8);
+    const terminal = new VirtualTerminal(20, 5);
+    let output = "";
+    const kittyUtil = new KittyUtil({
+        writeSync(p: Uint8Array): number {
+            output += new TextDecoder().decode(p);
+            return terminal.writeSync(p);
+        }
+    });
+    const root = new Group();
+    const first = new Image(png, [2, 1], [0, 0]);
+    const second = new Image(png, [2, 1], [5, 0]);
+    root.addChild(first);
+    root.addChild(second);
+    const renderer = new Renderer(root, kittyUtil, [20, 5]);
+    renderer.renderScene();
+
+    assertEquals(output.split("a=t,").length - 1, 1, "Shared data should be transmitted once");
+    assertEquals(terminal.placements.length, 2);
+
+    output = "";
+    renderer.renderScene();
+    assertEquals(output, "", "An unchanged frame sends nothing");
+
+    first.position = [0, 2];
+    renderer.renderScene();
+    assertEquals(output.includes("a=t,"), false, "Moving should not re-send the data");
+    assertEquals(terminal.placements.length, 2, "Moving replaces the placement");
+    assertEquals(terminal.placementsAt(0, 2).length, 1);
+
+    root.removeChild(first);
+    renderer.renderScene();
+    assertEquals(terminal.placements.length, 1, "Removed node's placement should be deleted");
+    assertEquals(terminal.images.size, 1, "Data stays while another node shows it");
+
+    root.removeChild(second);
+    renderer.renderScene();
+    assertEquals(terminal.placements.length, 0);
+    assertEquals(terminal.images.size, 0, "Data is freed with the last placement");
+});
+
+Deno.test("Image: Unicode placeholders draw the image as cells under a virtual placement", () => {
+    const terminal = new VirtualTerminal(20, 5);
+    let output = "";
+    const kittyUtil = new KittyUtil({
+        writeSync(p: Uint8Array): number {
+            output += new TextDecoder().decode(p);
+            return terminal.writeSync(p);
+        }
+    });
+    const root = new Group();
+    const logo = new Image(fakePng(8, 8), [3, 2], [1, 1]);
+    logo.unicodePlaceholders = true;
+    root.addChild(logo);
+    const renderer = new Renderer(root, kittyUtil, [20, 5]);
+    renderer.renderScene();
+
+    assertEquals(terminal.placements.length, 1);
+    const [placement] = terminal.placements;
+    assertEquals(placement.virtual, true);
+    assertEquals([placement.keys.U, placement.keys.c, placement.keys.r], ["1", "3", "2"]);
+    assertEquals(terminal.cellAt(1, 1), {
+        char: placeholderCell(0, 0, 1),
+        fg: idToColor(1),
+        bg: null,
+        attrs: 0,
+        underlineColor: idToColor(placement.placementId!)
+    });
+    assertEquals(terminal.cellAt(3, 2)?.char, placeholderCell(1, 2, 1));
+    assertEquals(terminal.cellAt(4, 2)?.char, " ");
+
+    output = "";
+    logo.position = [10, 0];
+    renderer.renderScene();
+    assertEquals(output.includes("\x1b_G"), false, "Moving only rewrites cells");
+    assertEquals(terminal.cellAt(10, 0)?.char, placeholderCell(0, 0, 1));
+    assertEquals(terminal.cellAt(1, 1)?.char, " ");
+
+    // Shown after the first frame, so it is drawn for the damage measurement too
+    const badge = new Image(fakePng(4, 4), [2, 1], [0, 4]);
+    badge.unicodePlaceholders = true;
+    root.addChild(badge);
+    renderer.renderScene();
+    const badgePlacement = terminal.placements.find((placement) => placement.imageId === 2)!;
+    assertEquals(badgePlacement.placementId, 1, "Only the placement that is used gets an id");
+    assertEquals(terminal.cellAt(0, 4)?.underlineColor, idToColor(1));
+    root.removeChild(badge);
+
+    root.removeChild(logo);
+    renderer.renderScene();
+    assertEquals(terminal.placements.length, 0);
+    assertEquals(terminal.images.size, 0);
+});
+
+Deno.test("AnimatedImage: frames are sent once and playback is controlled by the terminal", () => {
+    const terminal = new VirtualTerminal(20, 5);
+    const root = new Group();
+    const spinner = new AnimatedImage(
+        [
+            { image: fakePng(8, 8, 1), gap: 80 },
+            { image: fakePng(8, 8, 2), gap: 80 },
+            { image: fakePng(8, 8, 3) }
+        ],
+        [2, 1],
+        [1, 1],
+        { loops: 2 }
+    );
+    root.addChild(spinner);
+    const renderer = new Renderer(root, new KittyUtil(terminal), [20, 5]);
+    renderer.renderScene();
+
+    const image = terminal.images.get(1)!;
+    assertEquals(image.data, fakePng(8, 8, 1), "The first frame is the image itself");
+    assertEquals(image.frames.map((frame) => [frame.keys.z, frame.data.length]), [["80", 47], ["100", 48]]);
+    assertEquals(image.animationControls, [
+        { a: "a", i: "1", r: "1", z: "80", q: "2" },
+        { a: "a", i: "1", s: "3", v: "3", q: "2" }
+    ]);
+    assertEquals(terminal.placementsAt(1, 1).length, 1);
+
+    spinner.stop();
+    spinner.goToFrame(2);
+    renderer.renderScene();
+    assertEquals(image.frames.length, 2, "Frames are not sent again");
+    assertEquals(image.animationControls[2], { a: "a", i: "1", s: "1", v: "3", c: "2", q: "2" });
+    assertEquals(terminal.placements.length, 1);
+
+    assertThrows(() => new AnimatedImage([]), Error, "at least one frame");
+    assertThrows(() => spinner.frames = [], Error, "at least one frame");
+});
+
+Deno.test("Image: a stand-in is drawn when the terminal has no graphics", () => {
+    const terminal = new VirtualTerminal(12, 3);
+    const root = new Group();
+    const logo = new Image(fakePng(8, 8), [8, 3], [2, 0]);
+    logo.alt = "logo";
+    root.addChild(logo);
+    const renderer = new Renderer(root, new KittyUtil(terminal), [12, 3]);
+    renderer.capabilities = {
+        answered: true,
+        graphics: false,
+        synchronizedOutput: false,
+        cellPixelSize: null,
+        deviceAttributes: [1]
+    };
+    renderer.renderScene();
+
+    assertEquals(terminal.getLine(1), "   [logo]");
+    assertEquals(terminal.images.size, 0, "Nothing should be transmitted");
+});
+
+Deno.test("Image: a missing file draws the stand-in instead of failing the frame", () => {
+    const terminal = new VirtualTerminal(12, 3);
+    const root = new Group();
+    const logo = new Image("/nonexistent/logo.png", [8, 3], [2, 0]);
+    logo.alt = "logo";
+    root.addChild(logo);
+    new Renderer(root, new KittyUtil(terminal), [12, 3]).renderScene();
+
+    assertEquals(terminal.getLine(1), "   [logo]");
+    assertEquals(terminal.images.size, 0);
+});
@@ -7,8 +7,11 @@ import {
     Button,
     Group,
     Text,
-    Node // Import Node for type checking
+    Node, // Import Node for type checking
+    KittyUtil,
+    VirtualTerminal
 } from "../src/lib/mod.ts";
+import { assertSnapshot } from "../src/lib/snapshot.ts";
 
 // Mock Deno.consoleSize for Scene initialization
 const originalConsoleSize = Deno.consoleSize;
@@ -38,7 +41,7 @@ function findScene(node: Node): Scene | null {
 
 Deno.test("Interactive Demo Components: Tab navigation and Input", async () => {
     // Create a simple scene
-    const scene = new Scene(undefined, [0, 0], true, [20, 20, 40]);
+    const scene = new Scene(undefined, [0, 0], true, [20, 20, 40], 0, new KittyUtil(new VirtualTerminal(80, 24)));
 
     // Create a tab container
     const tabContainer = new TabContainer(
@@ -129,6 +132,9 @@ Deno.test("Interactive Demo Components: Tab navigation and Input", async () => {
     assertEquals(buttonClicked, true, "Button click handler should be called on Space");
 
 
+    // Check what the user would see after the interaction
+    await assertSnapshot(scene, new URL("./__snapshots__/interactive_demo.txt", import.meta.url));
+
     // Clean up mocks
     Deno.consoleSize = originalConsoleSize;
     Deno.stdout.writeSync = originalWriteSync;
@@ -11,7 +11,7 @@ import {
     TextInput,
     TabContainer,
     InputManager,
-    KittyUtil,
+    TerminalSession,
     FocusableComponent // Import FocusableComponent as a type
 } from "../src/lib/mod.ts";
 
@@ -104,7 +104,7 @@ function createFormTab(): Group {
         // Re-render the scene to show status update
         const scene = findScene(content); // Use helper to find scene
         if (scene) {
-            scene.renderScene();
+            scene.requestRender();
         }
     };
 
@@ -130,7 +130,7 @@ function createFormTab(): Group {
         // Re-render the scene to show cleared fields and status
         const scene = findScene(content); // Use helper to find scene
         if (scene) {
-            scene.renderScene();
+            scene.requestRender();
         }
     };
 
@@ -197,7 +197,7 @@ function createButtonsTab(): Group {
                  // Re-render the scene to show status update
                 const scene = findScene(content); // Use helper to find scene
                 if (scene) {
-                    scene.renderScene();
+                    scene.requestRender();
                 }
             };
         };
@@ -239,24 +239,34 @@ function createHelpTab(): Group {
         ["Escape", "Exit the application"],
     ];
 
-    for (let i = 0; i < shortcuts.length; i++) {
-        const [key, description] = shortcuts[i];
-        // Key name
-        const keyText = new Text(
-            key,
-            [200, 200, 255],
-            [10, 5 + i * 2]
-        );
-        content.addChild(keyText);
-
-        // Description
-        const descText = new Text(
-            description,
-            [180, 180, 220],
-            [25, 5 + i * 2]
-        );
-        content.addChild(descText);
-    }
+    // Key names, one shortcut every other line
+    const keyText = new Text(
+        shortcuts.map(([key]) => key).join("\n\n"),
+        [200, 200, 255],
+        [10, 5],
+        { bold: true }
+    );
+    content.addChild(keyText);
+
+    // Descriptions, lined up with the key names and cut short if the terminal is narrow
+    const descText = new Text(
+        shortcuts.map(([, description]) => description).join("\n\n"),
+        [180, 180, 220],
+        [25, 5],
+        {},
+        { maxWidth: 40, wrap: "none" }
+    );
+    content.addChild(descText);
+
+    // Closing note, wrapped to the width of the table
+    const note = new Text(
+        "Focus moves in the order elements appear on screen. The active tab stays selected while you interact with its content.",
+        [150, 150, 190],
+        [10, 5 + keyText.measuredSize[1] + 1],
+        { italic: true },
+        { maxWidth: 55, maxHeight: 3, align: "center" }
+    );
+    content.addChild(note);
 
     return content;
 }
@@ -276,10 +286,13 @@ function findScene(node: Node): any | null { // TODO: Define Scene type
 }
 
 
+// Owns the terminal while the demo runs: alternate screen, hidden cursor, raw input.
+// It restores everything on exit, Ctrl+C, SIGTERM and uncaught errors.
+const session = new TerminalSession();
+
 async function main() {
-    // Clear the screen first
-    const kittyUtil = new KittyUtil();
-    kittyUtil.clearScreen();
+    // Take over the terminal
+    session.start();
 
     // Create a scene
     const scene = new Scene(undefined, [0, 0], true, [20, 20, 40]);
@@ -348,6 +361,8 @@ async function main() {
 
     // Set up input manager
     const inputManager = new InputManager(scene);
+    inputManager.attachSession(session);
+    scene.attachSession(session);
 
     // Flag to control the main loop
     let running = true;
@@ -362,6 +377,9 @@ async function main() {
 
     // Initial focus will be set by the Scene's addChild when the first focusable component is added.
 
+    // Ask the terminal what it supports (synchronized output, graphics, cell size)
+    await scene.renderer.detectCapabilities();
+
     // Render the scene
     scene.renderScene();
 
@@ -373,33 +391,14 @@ async function main() {
         await new Promise(resolve => setTimeout(resolve, 100)); // Small delay to prevent busy loop
     }
 
-    // Clean up
-    await inputManager.stop();
-    // Reset terminal
-    kittyUtil.resetColors();
-    // Show cursor
-    Deno.stdout.writeSync(new TextEncoder().encode("\x1b[?25h"));
+    // Clean up: stops input and restores the terminal
+    await session.end();
 }
 
-// Set up signal handler for clean exit (Ctrl+C)
-Deno.addSignalListener("SIGINT", async () => {
-    console.log("\nExiting...");
-    // Reset terminal settings before exiting
-    const kittyUtil = new KittyUtil();
-    kittyUtil.resetColors();
-    // Show cursor
-    Deno.stdout.writeSync(new TextEncoder().encode("\x1b[?25h"));
-    Deno.exit(0);
-});
-
-
 // Run the main function
 main().catch(async (err) => {
+    // Restore the terminal first so the error is printed on the normal screen
+    session.restore();
     console.error("Application error:", err);
-    // Ensure terminal is reset on error
-    const kittyUtil = new KittyUtil();
-    kittyUtil.resetColors();
-    // Show cursor
-    Deno.stdout.writeSync(new TextEncoder().encode("\x1b[?25h"));
     Deno.exit(1);
 });
\ No newline at end of file
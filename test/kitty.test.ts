@@ -0,0 +1,82 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { KittyUtil } from "../src/lib/kitty.ts";
+import { BOLD, DIM, ITALIC, styleToAttrs } from "../src/lib/text_style.ts";
+
+// Output sink that records each write separately
+class RecordingSink {
+    public writes: string[] = [];
+
+    writeSync(p: Uint8Array): number {
+        this.writes.push(new TextDecoder().decode(p));
+        return p.length;
+    }
+}
+
+Deno.test("KittyUtil: output is buffered until flush", () => {
+    const sink = new RecordingSink();
+    const kittyUtil = new KittyUtil(sink);
+
+    kittyUtil.moveCursor(1, 1);
+    kittyUtil.setForegroundColor(255, 0, 0);
+    kittyUtil.write("hello");
+    assertEquals(sink.writes.length, 0, "Nothing should be written before flush");
+
+    kittyUtil.flush();
+    assertEquals(sink.writes, ["\x1b[1;1H\x1b[38;2;255;0;0mhello"], "Frame should be written with a single syscall");
+
+    kittyUtil.flush();
+    assertEquals(sink.writes.length, 1, "Flushing an empty buffer should not write");
+});
+
+Deno.test("KittyUtil: redundant state changes are skipped", () => {
+    const sink = new RecordingSink();
+    const kittyUtil = new KittyUtil(sink);
+
+    kittyUtil.moveCursor(2, 3);
+    kittyUtil.write("ab");
+    kittyUtil.moveCursor(2, 5); // Already there after writing two characters
+    kittyUtil.setBackgroundColor(1, 2, 3);
+    kittyUtil.setBackgroundColor(1, 2, 3);
+    kittyUtil.resetColors();
+    kittyUtil.resetColors();
+    kittyUtil.flush();
+
+    assertEquals(sink.writes[0], "\x1b[2;3Hab\x1b[48;2;1;2;3m\x1b[0m");
+});
+
+Deno.test("KittyUtil: flush retries partial writes", () => {
+    const chunks: string[] = [];
+    const kittyUtil = new KittyUtil({
+        writeSync(p: Uint8Array): number {
+            const n = Math.min(3, p.length); // Accept at most three bytes per call
+            chunks.push(new TextDecoder().decode(p.subarray(0, n)));
+            return n;
+        }
+    });
+
+    kittyUtil.write("abcdefg");
+    kittyUtil.flush();
+
+    assertEquals(chunks.join(""), "abcdefg", "All bytes should eventually be written");
+});
+
+Deno.test("KittyUtil: only changed text attributes are sent", () => {
+    const sink = new RecordingSink();
+    const kittyUtil = new KittyUtil(sink);
+
+    kittyUtil.resetColors(); // Known state: no attributes
+    kittyUtil.flush();
+    sink.writes = [];
+
+    kittyUtil.setAttributes(BOLD | ITALIC);
+    kittyUtil.setAttributes(BOLD | ITALIC);
+    kittyUtil.setAttributes(BOLD | styleToAttrs({ underline: "curly" }), [255, 0, 0]);
+    kittyUtil.setAttributes(DIM);
+    kittyUtil.flush();
+
+    assertEquals(sink.writes, [
+        "\x1b[1;3m" +
+        "\x1b[23;4:3;58;2;255;0;0m" +
+        "\x1b[22;2;24;59m"
+    ]);
+});
@@ -0,0 +1,184 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Group, Rectangle, Text } from "../src/lib/components.ts";
+import { Renderer } from "../src/lib/renderer.ts";
+import { KittyUtil } from "../src/lib/kitty.ts";
+import { VirtualTerminal } from "../src/lib/virtual_terminal.ts";
+
+// Output sink that records everything the renderer writes
+class CaptureSink {
+    public output = "";
+
+    writeSync(p: Uint8Array): number {
+        this.output += new TextDecoder().decode(p);
+        return p.length;
+    }
+}
+
+Deno.test("Renderer: first frame paints every non-blank cell", () => {
+    const sink = new CaptureSink();
+    const root = new Group();
+    root.addChild(new Text("Hi", [255, 0, 0], [2, 1]));
+
+    const renderer = new Renderer(root, new KittyUtil(sink), [10, 4]);
+    renderer.renderScene();
+
+    assertEquals(sink.output.startsWith("\x1b[2J\x1b[H"), true, "First frame should clear the screen");
+    assertEquals(sink.output.includes("\x1b[2;3H"), true, "Text should be positioned at row 2, column 3");
+    assertEquals(sink.output.includes("\x1b[38;2;255;0;0m"), true, "Text color should be set");
+    assertEquals(sink.output.includes("Hi"), true, "Text should be written as one run");
+});
+
+Deno.test("Renderer: unchanged frame writes no cells", () => {
+    const sink = new CaptureSink();
+    const root = new Group();
+    root.addChild(new Rectangle([2, 2], [0, 0, 255], true, [0, 0]));
+    root.addChild(new Text("Hello", [255, 255, 255], [0, 3]));
+
+    const renderer = new Renderer(root, new KittyUtil(sink), [10, 5]);
+    renderer.renderScene();
+
+    sink.output = "";
+    renderer.renderScene();
+
+    assertEquals(sink.output, "", "A frame identical to the previous one should produce no output");
+});
+
+Deno.test("Renderer: only changed cells are re-sent", () => {
+    const sink = new CaptureSink();
+    const root = new Group();
+    const text = new Text("Hello", [255, 255, 255], [0, 0]);
+    root.addChild(text);
+
+    const renderer = new Renderer(root, new KittyUtil(sink), [10, 2]);
+    renderer.renderScene();
+
+    sink.output = "";
+    text.text = "Help!";
+    renderer.renderScene();
+
+    assertEquals(sink.output.includes("\x1b[2J"), false, "Screen should not be cleared again");
+    assertEquals(sink.output.includes("\x1b[1;4H"), true, "Output should start at the first changed column");
+    assertEquals(sink.output.includes("p!"), true, "Changed characters should be written");
+    assertEquals(sink.output.includes("Hel"), false, "Unchanged characters should not be written");
+});
+
+Deno.test("Renderer: moving a node repaints its old and new location", () => {
+    const sink = new CaptureSink();
+    const root = new Group();
+    const background = new Rectangle([5, 3], [0, 0, 255], true, [0, 0]);
+    root.addChild(background);
+    const text = new Text("X", [255, 255, 255], [1, 1]);
+    root.addChild(text);
+
+    const renderer = new Renderer(root, new KittyUtil(sink), [10, 3]);
+    renderer.renderScene();
+
+    sink.output = "";
+    text.position = [3, 1];
+    renderer.renderScene();
+
+    // The old cell goes back to the blue background, the new one shows the text
+    assertEquals(sink.output.startsWith("\x1b[2;2H\x1b[48;2;0;0;255m "), true, "Vacated cell should be repainted");
+    assertEquals(sink.output.includes("\x1b[2;4H"), true, "New position should be painted");
+    assertEquals(text.dirty, false, "Renderer should clear the dirty flag");
+});
+
+Deno.test("Renderer: redundant color changes and cursor moves are skipped", () => {
+    const sink = new CaptureSink();
+    const root = new Group();
+    root.addChild(new Text("ab", [0, 255, 0], [0, 0]));
+    root.addChild(new Text("cd", [0, 255, 0], [2, 0]));
+
+    const renderer = new Renderer(root, new KittyUtil(sink), [10, 1]);
+    renderer.renderScene();
+
+    assertEquals(sink.output.split("\x1b[38;2;0;255;0m").length - 1, 1, "Color should be set once for the whole run");
+    assertEquals(sink.output.includes("abcd"), true, "Adjacent cells should be written without cursor moves");
+});
+
+Deno.test("Renderer: removing a child repaints the area it covered", () => {
+    const sink = new CaptureSink();
+    const root = new Group();
+    const text = new Text("Gone", [255, 255, 255], [0, 0]);
+    root.addChild(text);
+
+    const renderer = new Renderer(root, new KittyUtil(sink), [10, 2]);
+    renderer.renderScene();
+
+    sink.output = "";
+    root.removeChild(text);
+    renderer.renderScene();
+
+    assertEquals(sink.output.startsWith("\x1b[1;1H    "), true, "Removed text should be blanked");
+});
+
+Deno.test("Renderer: changes that are not on screen do not stay dirty", () => {
+    const root = new Group();
+    const empty = new Text("", [255, 255, 255], [0, 0]);
+    const hidden = new Group([0, 1]);
+    const below = new Text("hidden", [255, 255, 255], [0, 0]);
+    hidden.visible = false;
+    hidden.addChild(below);
+    root.addChild(empty);
+    root.addChild(hidden);
+    const renderer = new Renderer(root, new KittyUtil(new CaptureSink()), [10, 2]);
+    renderer.renderScene();
+
+    empty.position = [1, 0];
+    below.text = "still hidden";
+    renderer.renderScene();
+
+    assertEquals(empty.dirty, false, "A node with nothing to draw should not be measured again");
+    assertEquals(below.dirty, false, "A change below a hidden node should not be walked again");
+    assertEquals(root.childDirty, false);
+});
+
+Deno.test("Renderer: children are clipped to their container's size", () => {
+    const sink = new CaptureSink();
+    const root = new Group();
+    const container = new Group([2, 1], [4, 1]);
+    root.addChild(container);
+    container.addChild(new Text("overflowing", [255, 255, 255], [1, 0])); // Starts inside, runs past the edge
+    container.addChild(new Text("below", [255, 255, 255], [0, 1])); // Entirely outside
+
+    const renderer = new Renderer(root, new KittyUtil(sink), [20, 3]);
+    renderer.renderScene();
+
+    assertEquals(sink.output.includes("ove"), true, "Visible part of the text should be drawn");
+    assertEquals(sink.output.includes("over"), false, "Text should stop at the container's right edge");
+    assertEquals(sink.output.includes("below"), false, "Text outside the container should not be drawn");
+});
+
+Deno.test("Renderer: resizing a container repaints with the new clipping", () => {
+    const sink = new CaptureSink();
+    const root = new Group();
+    const container = new Group([2, 1], [4, 1]);
+    root.addChild(container);
+    container.addChild(new Text("overflowing", [255, 255, 255], [1, 0]));
+    const renderer = new Renderer(root, new KittyUtil(sink), [20, 3]);
+    renderer.renderScene();
+    assertEquals(sink.output.includes("over"), false);
+
+    sink.output = "";
+    container.size = [8, 1];
+    renderer.renderScene();
+    assertEquals(sink.output.includes("rflo"), true, "Text uncovered by the new size should be drawn");
+});
+
+Deno.test("Renderer: sizes are in cells unless a rectangle preserves its aspect", () => {
+    const terminal = new VirtualTerminal(12, 3);
+    const root = new Group();
+    root.addChild(new Rectangle([3, 3], [255, 255, 255], false, [0, 0]));
+    const square = new Rectangle([3, 3], [255, 255, 255], false, [4, 0]);
+    square.preserveAspect = true;
+    root.addChild(square);
+
+    const renderer = new Renderer(root, new KittyUtil(terminal), [12, 3]);
+    renderer.renderScene();
+    assertEquals(terminal.getLine(0), "┌─┐ ┌────┐", "Without a reported cell size, cells are taken to be 1:2");
+
+    renderer.cellPixelSize = [9, 12];
+    renderer.renderScene();
+    assertEquals(terminal.getLine(0), "┌─┐ ┌──┐", "A new cell size repaints the scene");
+    assertEquals(terminal.getLine(2), "└─┘ └──┘");
+});
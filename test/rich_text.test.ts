@@ -0,0 +1,46 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { RichText, escapeMarkup, parseMarkup } from "../src/lib/rich_text.ts";
+import { renderSnapshot } from "../src/lib/snapshot.ts";
+import { attrsToStyle } from "../src/lib/text_style.ts";
+
+Deno.test("parseMarkup: tags, nesting and escapes", () => {
+    assertEquals(parseMarkup("[bold red]User1[/]: hello"), [
+        { text: "User1", color: [205, 0, 0], style: { bold: true } },
+        { text: ": hello" }
+    ]);
+    assertEquals(parseMarkup("[italic]a [#ff8000 on blue]b[/] c[/]"), [
+        { text: "a ", style: { italic: true } },
+        { text: "b", color: [255, 128, 0], background: [0, 0, 238], style: { italic: true } },
+        { text: " c", style: { italic: true } }
+    ]);
+    assertEquals(parseMarkup("[curly-underline underline-color=#f00]x[/]"), [
+        { text: "x", style: { underline: "curly", underlineColor: [255, 0, 0] } }
+    ]);
+    assertEquals(parseMarkup("array[1] and \\[bold]"), [{ text: "array[1] and [bold]" }], "Invalid and escaped tags stay text");
+    assertEquals(parseMarkup(escapeMarkup("[red]")), [{ text: "[red]" }]);
+});
+
+Deno.test("escapeMarkup: a trailing backslash does not escape the next tag", () => {
+    assertEquals(parseMarkup("[bold]" + escapeMarkup("C:\\") + "[/] done"), [
+        { text: "C:\\", style: { bold: true } },
+        { text: " done" }
+    ]);
+    assertEquals(parseMarkup(escapeMarkup("a\\[b] c:\\d")), [{ text: "a\\[b] c:\\d" }]);
+    assertEquals(parseMarkup("C:\\dir \\\\[bold]x"), [
+        { text: "C:\\dir \\" },
+        { text: "x", style: { bold: true } }
+    ], "Backslashes only escape before a bracket");
+});
+
+Deno.test("RichText: spans are drawn one after another", () => {
+    const line = new RichText("[bold #ff0000]日本[/]: hi", [1, 0], [200, 200, 200]);
+    assertEquals(line.text, "日本: hi");
+    assertEquals(line.width, 8);
+
+    const terminal = renderSnapshot(line, [10, 1]);
+    assertEquals(terminal.getLine(0), " 日本: hi");
+    assertEquals(terminal.foregroundAt(1, 0), [255, 0, 0]);
+    assertEquals(attrsToStyle(terminal.cellAt(1, 0)!.attrs), { bold: true });
+    assertEquals(terminal.foregroundAt(5, 0), [200, 200, 200], "Unstyled spans use the node's color");
+    assertEquals(terminal.cellAt(5, 0)!.attrs, 0);
+});
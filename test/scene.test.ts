@@ -0,0 +1,67 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Button, Group, Scene, Text, TextInput } from "../src/lib/mod.ts";
+import { Renderer } from "../src/lib/renderer.ts";
+import { KittyUtil } from "../src/lib/kitty.ts";
+import { VirtualTerminal } from "../src/lib/virtual_terminal.ts";
+
+Deno.test("Scene: overlays are drawn above content added later", () => {
+    let output = "";
+    const scene = new Scene([10, 2], [0, 0], false);
+    scene.addOverlay(new Text("TOP", [255, 0, 0], [0, 0]));
+    scene.addChild(new Text("base", [0, 255, 0], [0, 0])); // Added after the overlay, same cells
+
+    const renderer = new Renderer(scene, new KittyUtil({
+        writeSync(p: Uint8Array): number {
+            output += new TextDecoder().decode(p);
+            return p.length;
+        }
+    }), [10, 2]);
+    renderer.renderScene();
+
+    assertEquals(output.includes("TOP"), true, "Overlay text should be drawn");
+    assertEquals(output.includes("bas"), false, "Overlay text should cover the base text");
+});
+
+Deno.test("Scene: zIndex orders siblings regardless of insertion order", () => {
+    const root = new Group();
+    const back = new Text("b", [255, 255, 255]);
+    const front = new Text("f", [255, 255, 255]);
+    front.zIndex = 1;
+    root.addChild(front);
+    root.addChild(back);
+
+    assertEquals(root.getRenderOrder(), [back, front]);
+});
+
+Deno.test("Scene: a modal overlay captures input and gives focus back when removed", () => {
+    const scene = new Scene([40, 10], [0, 0], false, [0, 0, 0], 0, new KittyUtil(new VirtualTerminal(40, 10)));
+    const input = new TextInput([0, 0], [20, 3]);
+    scene.addChild(input);
+    assertEquals(scene.focusedComponent, input);
+
+    let confirmed = false;
+    const dialog = new Group([5, 2]);
+    const ok = new Button("OK", [0, 0], undefined, undefined, undefined, undefined, () => {
+        confirmed = true;
+    });
+    const cancel = new Button("Cancel", [10, 0]);
+    dialog.addChild(ok);
+    dialog.addChild(cancel);
+    scene.addOverlay(dialog, "modal");
+
+    assertEquals(scene.focusedComponent, ok, "Focus should move into the modal");
+
+    scene.handleKey("tab");
+    assertEquals(scene.focusedComponent, cancel, "Tab should cycle inside the modal");
+    scene.handleKey("tab");
+    assertEquals(scene.focusedComponent, ok, "Tab should not leave the modal");
+
+    scene.handleKey("enter");
+    assertEquals(confirmed, true);
+
+    scene.removeOverlay(dialog);
+    assertEquals(scene.focusedComponent, input, "Focus should return to where it was");
+
+    scene.handleKey("x");
+    assertEquals(input.value, "x");
+});
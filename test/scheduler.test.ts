@@ -0,0 +1,47 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { FrameScheduler } from "../src/lib/scheduler.ts";
+
+Deno.test("FrameScheduler: requests in the same tick produce one frame", async () => {
+    let frames = 0;
+    const scheduler = new FrameScheduler(() => frames++);
+
+    scheduler.request();
+    scheduler.request();
+    scheduler.request();
+    assertEquals(frames, 0, "Frames should not render synchronously");
+
+    await Promise.resolve();
+    assertEquals(frames, 1, "Requests in one tick should be coalesced into a single frame");
+
+    scheduler.request();
+    await Promise.resolve();
+    assertEquals(frames, 2, "A request in a later tick should produce another frame");
+});
+
+Deno.test("FrameScheduler: cancel drops a pending frame", async () => {
+    let frames = 0;
+    const scheduler = new FrameScheduler(() => frames++);
+
+    scheduler.request();
+    scheduler.cancel();
+    await Promise.resolve();
+
+    assertEquals(frames, 0, "Cancelled frame should not render");
+});
+
+Deno.test("FrameScheduler: maxFps delays frames that come too soon", async () => {
+    let frames = 0;
+    const scheduler = new FrameScheduler(() => frames++, 50); // One frame every 20ms
+
+    scheduler.request();
+    await Promise.resolve();
+    assertEquals(frames, 1, "First frame should not be delayed");
+
+    scheduler.request();
+    await Promise.resolve();
+    assertEquals(frames, 1, "Second frame should wait for the next slot");
+    assertEquals(scheduler.isPending, true);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    assertEquals(frames, 2, "Second frame should render once the slot is reached");
+});
@@ -5,7 +5,7 @@
 import { Node } from "../src/lib/node.ts";
 import { Rectangle, Text, Group } from "../src/lib/components.ts";
 import { Renderer } from "../src/lib/renderer.ts";
-import { KittyUtil } from "../src/lib/kitty.ts";
+import { TerminalSession } from "../src/lib/terminal_session.ts";
 import { InputManager } from "../src/lib/input_handler.ts"; // Assuming InputManager is needed for interaction
 
 // Define types for clarity
@@ -125,7 +125,7 @@ function createDemoScene(): Group {
     // Add some sample components to showcase
     // 1. A filled rectangle
     const rect1 = new Rectangle(
-        [10, 5],
+        [20, 5],
         [200, 50, 50],
         true,
         [5, 4]
@@ -140,12 +140,13 @@ function createDemoScene(): Group {
     );
     content.addChild(rect1Label);
 
-    // 2. An outlined rectangle
+    // 2. An outlined rectangle with a rounded, titled border
     const rect2 = new Rectangle(
-        [10, 5],
+        [20, 5],
         [50, 200, 50],
         false,
-        [25, 4]
+        [25, 4],
+        { style: "rounded", title: "Outline", titleAlign: "center" }
     );
     content.addChild(rect2);
 
@@ -163,7 +164,7 @@ function createDemoScene(): Group {
 
     // Parent rectangle
     const parentRect = new Rectangle(
-        [10, 5],
+        [20, 5],
         [50, 50, 200],
         true,
         [0, 0]
@@ -172,7 +173,7 @@ function createDemoScene(): Group {
 
     // Child rectangle (positioned relative to parent)
     const childRect = new Rectangle(
-        [4, 2],
+        [8, 2],
         [200, 200, 50],
         true,
         [3, 1]
@@ -226,29 +227,29 @@ function createDemoScene(): Group {
     return root;
 }
 
+// Owns the terminal while the demo runs: alternate screen, hidden cursor, raw input.
+// It restores everything on exit, Ctrl+C, SIGTERM and uncaught errors.
+const session = new TerminalSession();
+
 export async function main() {
-    // Clear the screen first
-    const kittyUtil = new KittyUtil();
-    kittyUtil.clearScreen();
+    // Take over the terminal
+    session.start();
 
     // Create the scene
     const root = createDemoScene();
 
     // Create a renderer and render the scene
-    const renderer = new Renderer(root, kittyUtil);
+    const renderer = new Renderer(root, session.kittyUtil);
     renderer.renderScene();
 
     // Set up input handling to exit on Enter
     const inputManager = new InputManager();
+    inputManager.attachSession(session);
     // Create a dummy scene object for the InputManager to interact with
     const dummyScene = {
         handleKey: (key: string) => {
             if (key === 'enter') {
-                console.log("\nExiting...");
                 inputManager.stop(); // Stop the input handler
-                // Reset terminal settings before exiting
-                kittyUtil.resetColors();
-                // Deno.exit(0); // Exit the process
             }
             return false; // Key not handled by dummy scene
         }
@@ -260,35 +261,20 @@ export async function main() {
     await inputManager.start();
 
     // Keep the program running until inputManager is stopped
+    // The input handler's _inputLoop promise will keep the process alive.
+    // When inputManager.stop() is called, the loop will break and the promise will resolve.
     if (inputManager["keyboardHandler"]["inputLoopPromise"]) {
          await inputManager["keyboardHandler"]["inputLoopPromise"];
     }
 
-    // Reset terminal settings (also handled in inputManager.stop() and signal handler)
-    kittyUtil.resetColors();
-    // Show cursor (also handled in inputManager.stop() and signal handler)
-    // Deno.stdout.writeSync(new TextEncoder().encode("\x1b[?25h"));
+    // Restore the terminal
+    await session.end();
 }
 
-// Set up signal handler for clean exit (Ctrl+C)
-Deno.addSignalListener("SIGINT", () => {
-    console.log("\nExiting...");
-    // Reset terminal settings before exiting
-    const kittyUtil = new KittyUtil();
-    kittyUtil.resetColors();
-    // Show cursor
-    Deno.stdout.writeSync(new TextEncoder().encode("\x1b[?25h"));
-    Deno.exit(0);
-});
-
-
 // Run the main function
 main().catch((err) => {
+    // Restore the terminal first so the error is printed on the normal screen
+    session.restore();
     console.error("Application error:", err);
-    // Ensure terminal is reset on error
-    const kittyUtil = new KittyUtil();
-    kittyUtil.resetColors();
-    // Show cursor
-    Deno.stdout.writeSync(new TextEncoder().encode("\x1b[?25h"));
     Deno.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,37 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Group, Text } from "../src/lib/components.ts";
+import { SnapshotMismatchError, assertSnapshot, renderSnapshot, serializeSnapshot } from "../src/lib/snapshot.ts";
+
+Deno.test("Snapshot: text and JSON serialization", () => {
+    const root = new Group();
+    root.addChild(new Text("Hi", [255, 0, 0], [1, 0]));
+
+    const terminal = renderSnapshot(root, [4, 2]);
+    assertEquals(serializeSnapshot(terminal, "text"), " Hi\n\n");
+    assertEquals(JSON.parse(serializeSnapshot(terminal, "json")).styles, [
+        { x: 1, y: 0, length: 2, fg: [255, 0, 0], bg: null, attrs: 0 }
+    ]);
+});
+
+Deno.test("Snapshot: update writes the golden file and mismatches are reported per cell", async () => {
+    const directory = await Deno.makeTempDir();
+    const path = `${directory}/snapshots/greeting.json`;
+    const text = new Text("Hello", [255, 255, 255], [0, 0]);
+    const root = new Group();
+    root.addChild(text);
+
+    await assertSnapshot(root, path, { size: [8, 1], update: true });
+    await assertSnapshot(root, path, { size: [8, 1] }); // Matches what was just written
+
+    text.text = "Help";
+    text.color = [255, 0, 0];
+    const error = await assertRejects(
+        () => assertSnapshot(root, path, { size: [8, 1] }),
+        SnapshotMismatchError
+    );
+    assertEquals(error.message.includes('(3, 0): expected "l" fg=#ffffff'), true, "Changed character should be listed");
+    assertEquals(error.message.includes('got "p" fg=#ff0000'), true, "New style should be listed");
+    assertEquals(error.message.includes("(4, 0)"), true, "Removed character should be listed");
+
+    await Deno.remove(directory, { recursive: true });
+});
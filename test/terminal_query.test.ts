@@ -0,0 +1,126 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+    acquireRawMode,
+    detectCapabilities,
+    detectCellPixelSize,
+    detectSynchronizedOutput,
+    queryTerminal,
+    releaseRawMode
+} from "../src/lib/terminal_query.ts";
+import { Group, Text } from "../src/lib/components.ts";
+import { Renderer } from "../src/lib/renderer.ts";
+import { KittyUtil } from "../src/lib/kitty.ts";
+
+// Fake terminal that answers queries with a canned reply
+function fakeTerminal(reply: string) {
+    const written: string[] = [];
+    let controller: ReadableStreamDefaultController<Uint8Array>;
+    const readable = new ReadableStream<Uint8Array>({
+        start(c) {
+            controller = c;
+        }
+    });
+    return {
+        written,
+        input: { readable },
+        output: {
+            writeSync(p: Uint8Array): number {
+                written.push(new TextDecoder().decode(p));
+                if (reply) {
+                    controller.enqueue(new TextEncoder().encode(reply));
+                }
+                return p.length;
+            }
+        }
+    };
+}
+
+Deno.test("queryTerminal: stops reading at the DA1 reply", async () => {
+    const terminal = fakeTerminal("\x1b[?2026;2$y\x1b[?62;22c");
+
+    const response = await queryTerminal("\x1b[?2026$p", { ...terminal, timeout: 1000 });
+
+    assertEquals(terminal.written, ["\x1b[?2026$p\x1b[c"], "Query should be followed by a DA1 request");
+    assertEquals(response, "\x1b[?2026;2$y\x1b[?62;22c");
+});
+
+Deno.test("queryTerminal: gives up when stdin is already being read", async () => {
+    const terminal = fakeTerminal("\x1b[?62c");
+    const rawModes: boolean[] = [];
+    const input = { ...terminal.input, setRaw: (mode: boolean) => rawModes.push(mode) };
+    const reader = input.readable.getReader(); // Like a running InputManager
+
+    assertEquals(await queryTerminal("\x1b[?2026$p", { ...terminal, input }), "");
+    assertEquals(terminal.written, [], "Nothing is asked when nobody can read the reply");
+    assertEquals(rawModes, [], "Raw mode is left alone");
+    reader.releaseLock();
+});
+
+Deno.test("queryTerminal: raw mode held by someone else stays on", async () => {
+    const terminal = fakeTerminal("\x1b[?62c");
+    const rawModes: boolean[] = [];
+    const input = { ...terminal.input, setRaw: (mode: boolean) => rawModes.push(mode) };
+
+    acquireRawMode(input); // Like a running InputManager
+    await queryTerminal("", { ...terminal, input, timeout: 1000 });
+    assertEquals(rawModes, [true], "The query shares raw mode instead of turning it off");
+    releaseRawMode(input);
+    assertEquals(rawModes, [true, false]);
+});
+
+Deno.test("detectSynchronizedOutput: recognizes supported and unsupported terminals", async () => {
+    assertEquals(await detectSynchronizedOutput(fakeTerminal("\x1b[?2026;2$y\x1b[?62c")), true);
+    assertEquals(await detectSynchronizedOutput(fakeTerminal("\x1b[?2026;0$y\x1b[?62c")), false);
+    assertEquals(await detectSynchronizedOutput(fakeTerminal("\x1b[?62c")), false, "Only a DA1 reply means unsupported");
+});
+
+Deno.test("detectSynchronizedOutput: times out when the terminal stays silent", async () => {
+    const supported = await detectSynchronizedOutput({ ...fakeTerminal(""), timeout: 20 });
+    assertEquals(supported, false);
+});
+
+Deno.test("detectCellPixelSize: reads the XTWINOPS reply", async () => {
+    const terminal = fakeTerminal("\x1b[6;20;9t\x1b[?62c");
+    assertEquals(await detectCellPixelSize(terminal), [9, 20], "Reply is height first, size is width first");
+    assertEquals(terminal.written, ["\x1b[16t\x1b[c"]);
+    assertEquals(await detectCellPixelSize(fakeTerminal("\x1b[?62c")), null, "No reply means unknown");
+});
+
+Deno.test("detectCapabilities: probes everything in one round trip", async () => {
+    const kitty = fakeTerminal("\x1b_Gi=31;OK\x1b\\\x1b[?2026;2$y\x1b[6;18;8t\x1b[?62;22;52c");
+    assertEquals(await detectCapabilities(kitty), {
+        answered: true,
+        graphics: true,
+        synchronizedOutput: true,
+        cellPixelSize: [8, 18],
+        deviceAttributes: [62, 22, 52]
+    });
+    assertEquals(kitty.written.length, 1, "All queries should go out in a single write");
+    assertEquals(kitty.written[0].endsWith("\x1b[c"), true, "DA1 should come last");
+
+    const plain = await detectCapabilities(fakeTerminal("\x1b_Gi=31;ENOTSUPPORTED:no graphics\x1b\\\x1b[?1;2c"));
+    assertEquals([plain.answered, plain.graphics, plain.cellPixelSize], [true, false, null]);
+
+    const silent = await detectCapabilities({ ...fakeTerminal(""), timeout: 20 });
+    assertEquals([silent.answered, silent.graphics], [false, false]);
+});
+
+Deno.test("Renderer: frames are wrapped in synchronized updates when supported", async () => {
+    let output = "";
+    const kittyUtil = new KittyUtil({
+        writeSync(p: Uint8Array): number {
+            output += new TextDecoder().decode(p);
+            return p.length;
+        }
+    });
+    const root = new Group();
+    root.addChild(new Text("sync", [255, 255, 255], [0, 0]));
+    const renderer = new Renderer(root, kittyUtil, [10, 1]);
+
+    const terminal = fakeTerminal("\x1b[?2026;2$y\x1b[?62c");
+    await renderer.detectSynchronizedOutput({ input: terminal.input, output: terminal.output });
+    renderer.renderScene();
+
+    assertEquals(output.startsWith("\x1b[?2026h\x1b[2J"), true, "Frame should begin a synchronized update");
+    assertEquals(output.endsWith("\x1b[?2026l"), true, "Frame should end the synchronized update");
+});
@@ -0,0 +1,61 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { KittyUtil } from "../src/lib/kitty.ts";
+import { TerminalSession } from "../src/lib/terminal_session.ts";
+
+// Fake stdin/stdout pair that records raw mode changes and output
+function fakeTerminal() {
+    const state = { output: "", rawCalls: [] as boolean[] };
+    const kittyUtil = new KittyUtil({
+        writeSync(p: Uint8Array): number {
+            state.output += new TextDecoder().decode(p);
+            return p.length;
+        }
+    });
+    const input = {
+        readable: new ReadableStream<Uint8Array>(),
+        setRaw(mode: boolean): void {
+            state.rawCalls.push(mode);
+        }
+    };
+    return { state, kittyUtil, input };
+}
+
+Deno.test("TerminalSession: start and end set up and restore the terminal", async () => {
+    const { state, kittyUtil, input } = fakeTerminal();
+    const session = new TerminalSession(kittyUtil, {}, input);
+
+    session.start();
+    assertEquals(session.isActive, true);
+    assertEquals(state.output.startsWith("\x1b[?1049h\x1b[?25l"), true, "Should enter the alternate screen and hide the cursor");
+    assertEquals(state.rawCalls, [true], "Should enable raw mode");
+
+    const order: string[] = [];
+    session.onCleanup(() => {
+        order.push("first");
+    });
+    session.onCleanup(async () => {
+        await Promise.resolve();
+        order.push("second");
+    });
+
+    state.output = "";
+    await session.end();
+
+    assertEquals(session.isActive, false);
+    assertEquals(order, ["second", "first"], "Cleanup handlers should run in reverse order");
+    assertEquals(state.rawCalls, [true, false], "Should leave raw mode");
+    assertEquals(state.output, "\x1b[0m\x1b[?25h\x1b[?1049l", "Should reset colors, show the cursor and leave the alternate screen");
+});
+
+Deno.test("TerminalSession: restore is idempotent", () => {
+    const { state, kittyUtil, input } = fakeTerminal();
+    const session = new TerminalSession(kittyUtil, { alternateScreen: false }, input);
+
+    session.start();
+    session.restore();
+    const output = state.output;
+    session.restore();
+
+    assertEquals(state.output, output, "Restoring twice should not write anything more");
+    assertEquals(state.rawCalls, [true, false]);
+});
@@ -0,0 +1,94 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { graphemes, stringWidth, truncateToWidth, wrapText } from "../src/lib/text_width.ts";
+import { Group, Text } from "../src/lib/components.ts";
+import { TextInput } from "../src/lib/input_components.ts";
+import { renderSnapshot } from "../src/lib/snapshot.ts";
+import { KittyUtil } from "../src/lib/kitty.ts";
+import { Renderer } from "../src/lib/renderer.ts";
+import { VirtualTerminal } from "../src/lib/virtual_terminal.ts";
+
+Deno.test("stringWidth: wide, combining and emoji characters", () => {
+    assertEquals(stringWidth("hello"), 5);
+    assertEquals(stringWidth("日本語"), 6, "CJK characters are two columns wide");
+    assertEquals(stringWidth("e\u0301"), 1, "A combining accent takes no column of its own");
+    assertEquals(stringWidth("👍"), 2);
+    assertEquals(stringWidth("👨‍👩‍👧"), 2, "A ZWJ sequence is a single emoji");
+    assertEquals(stringWidth("🇫🇷"), 2, "A flag is a pair of regional indicators");
+    assertEquals(graphemes("a👨‍👩‍👧e\u0301"), ["a", "👨‍👩‍👧", "e\u0301"]);
+});
+
+Deno.test("truncateToWidth: never splits a wide character", () => {
+    assertEquals(truncateToWidth("日本語", 5), "日本");
+    assertEquals(truncateToWidth("日本語", 5, "…"), "日本…");
+    assertEquals(truncateToWidth("short", 10, "…"), "short");
+});
+
+Deno.test("Wide characters take two cells on screen", () => {
+    const root = new Group();
+    root.addChild(new Text("日本x", [255, 255, 255], [0, 0]));
+    root.addChild(new Text("ab日", [255, 255, 255], [0, 1]));
+
+    const terminal = renderSnapshot(root, [4, 2]);
+    assertEquals(terminal.getLine(0), "日本", "x does not fit after two wide characters");
+    assertEquals(terminal.cellAt(1, 0)?.char, "", "Second cell of a wide character is a continuation");
+    assertEquals(terminal.getLine(1), "ab日");
+});
+
+Deno.test("Wide characters survive a repaint of one of their halves", () => {
+    // Something under the lead half, then something under the continuation half
+    for (const position of [[4, 0], [5, 0]] as [number, number][]) {
+        const root = new Group();
+        const below = new Text("x", [255, 255, 255], position);
+        root.addChild(below);
+        root.addChild(new Text("日本", [255, 255, 255], [4, 0]));
+        const terminal = new VirtualTerminal(10, 1);
+        const renderer = new Renderer(root, new KittyUtil(terminal), [10, 1]);
+        renderer.renderScene();
+
+        root.removeChild(below);
+        renderer.renderScene();
+        assertEquals(terminal.getText(), renderSnapshot(root, [10, 1]).getText());
+        assertEquals(terminal.getLine(0), "    日本");
+    }
+});
+
+Deno.test("TextInput: cursor moves by grapheme and display width", () => {
+    const input = new TextInput([0, 0], [20, 1]);
+    input.onFocus();
+    for (const key of ["日", "👍", "e\u0301"]) {
+        input.handleKey(key);
+    }
+    assertEquals(input.value, "日👍e\u0301");
+    assertEquals(input.cursorPos, 3);
+    assertEquals(input.cursor.position, [1 + 5, 0], "Cursor should sit after five columns of text");
+
+    input.handleKey("backspace");
+    assertEquals(input.value, "日👍", "Backspace removes the whole accented letter");
+    input.handleKey("left");
+    assertEquals(input.cursor.position, [1 + 2, 0]);
+});
+
+Deno.test("wrapText: word and character wrapping", () => {
+    assertEquals(wrapText("the quick brown fox", 10), ["the quick", "brown fox"]);
+    assertEquals(wrapText("a verylongword here", 6), ["a", "verylo", "ngword", "here"]);
+    assertEquals(wrapText("日本語のテキスト", 6, "char"), ["日本語", "のテキ", "スト"]);
+    assertEquals(wrapText("one\ntwo", undefined), ["one", "two"], "Newlines always break");
+});
+
+Deno.test("Text: multi-line layout with alignment and truncation", () => {
+    const text = new Text("the quick brown fox jumps over the lazy dog", [255, 255, 255], [0, 0], {}, {
+        maxWidth: 10,
+        maxHeight: 3,
+        align: "right"
+    });
+    assertEquals(text.getLines(), ["the quick", "brown fox", "jumps ove…"]);
+    assertEquals(text.measuredSize, [10, 3]);
+
+    const terminal = renderSnapshot(text, [12, 3]);
+    assertEquals(terminal.getText(), " the quick\n brown fox\njumps ove…");
+
+    text.layout = { maxWidth: 8, wrap: "none", align: "center" };
+    assertEquals(text.getLines(), ["the qui…"]);
+    text.text = "ab\ncd";
+    assertEquals(text.measuredSize, [2, 2]);
+});
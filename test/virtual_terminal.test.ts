@@ -0,0 +1,90 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { Group, Rectangle, Text } from "../src/lib/components.ts";
+import { Renderer } from "../src/lib/renderer.ts";
+import { KittyUtil } from "../src/lib/kitty.ts";
+import { VirtualTerminal } from "../src/lib/virtual_terminal.ts";
+import { attrsToStyle } from "../src/lib/text_style.ts";
+
+Deno.test("VirtualTerminal: cursor movement, colors and erasing", () => {
+    const terminal = new VirtualTerminal(10, 3);
+
+    terminal.write("\x1b[2;3H\x1b[38;2;255;0;0mHi\x1b[39m!");
+    assertEquals(terminal.getLine(1), "  Hi!");
+    assertEquals(terminal.foregroundAt(2, 1), [255, 0, 0]);
+    assertEquals(terminal.foregroundAt(4, 1), null, "SGR 39 should restore the default color");
+    assertEquals(terminal.cursor, [5, 1]);
+
+    terminal.write("\x1b[48;2;0;0;255m\x1b[2J");
+    assertEquals(terminal.getText(), "\n\n");
+    assertEquals(terminal.backgroundAt(0, 0), [0, 0, 255], "Erased cells take the current background");
+});
+
+Deno.test("VirtualTerminal: sequences split across writes", () => {
+    const terminal = new VirtualTerminal(10, 3);
+    const bytes = new TextEncoder().encode("\x1b[3;1Habc");
+
+    terminal.writeSync(bytes.slice(0, 3));
+    terminal.writeSync(bytes.slice(3));
+    assertEquals(terminal.getLine(2), "abc");
+});
+
+Deno.test("VirtualTerminal: private modes and the alternate screen", () => {
+    const terminal = new VirtualTerminal(10, 2);
+    terminal.write("main");
+
+    terminal.write("\x1b[?1049h\x1b[?25l\x1b[?2026h");
+    assertEquals(terminal.getLine(0), "", "Alternate screen should start blank");
+    assertEquals(terminal.modes.get(25), false);
+    assertEquals(terminal.modes.get(2026), true);
+
+    terminal.write("\x1b[?1049l");
+    assertEquals(terminal.getLine(0), "main", "Main screen should be restored");
+});
+
+Deno.test("VirtualTerminal: Kitty graphics commands", () => {
+    const terminal = new VirtualTerminal(20, 5);
+
+    // Chunked transmit-and-display at row 2, column 4
+    terminal.write("\x1b[2;4H\x1b_Ga=T,f=100,i=7,m=1;AQID\x1b\\\x1b_Gm=0;BA==\x1b\\");
+    assertEquals(terminal.images.get(7)?.data, new Uint8Array([1, 2, 3, 4]));
+    assertEquals(terminal.placements.length, 1);
+    assertEquals(terminal.placementsAt(3, 1)[0].imageId, 7);
+
+    terminal.write("\x1b_Ga=d,d=i,i=7\x1b\\");
+    assertEquals(terminal.placements.length, 0, "Placement should be deleted");
+    assertEquals(terminal.images.has(7), true, "Lowercase delete keeps the image data");
+});
+
+Deno.test("VirtualTerminal: renders a scene through KittyUtil", () => {
+    const terminal = new VirtualTerminal(10, 4);
+    const root = new Group();
+    root.addChild(new Rectangle([2, 1], [0, 0, 255], true, [0, 0]));
+    root.addChild(new Text("Hello", [255, 255, 255], [1, 2]));
+
+    const renderer = new Renderer(root, new KittyUtil(terminal), [10, 4]);
+    renderer.renderScene();
+
+    assertEquals(terminal.getLine(2), " Hello");
+    assertEquals(terminal.foregroundAt(1, 2), [255, 255, 255]);
+    assertEquals(terminal.backgroundAt(0, 0), [0, 0, 255]);
+});
+
+Deno.test("VirtualTerminal: text styles round-trip through KittyUtil", () => {
+    const terminal = new VirtualTerminal(20, 1);
+    const root = new Group();
+    root.addChild(new Text("bold", [255, 255, 255], [0, 0], { bold: true, italic: true }));
+    root.addChild(new Text("wavy", [255, 255, 255], [5, 0], {
+        underline: "curly",
+        underlineColor: [255, 0, 0],
+        strikethrough: true
+    }));
+    root.addChild(new Text("plain", [255, 255, 255], [10, 0]));
+
+    new Renderer(root, new KittyUtil(terminal), [20, 1]).renderScene();
+
+    assertEquals(attrsToStyle(terminal.cellAt(0, 0)!.attrs), { bold: true, italic: true });
+    assertEquals(attrsToStyle(terminal.cellAt(5, 0)!.attrs), { strikethrough: true, underline: "curly" });
+    assertEquals(terminal.cellAt(5, 0)!.underlineColor, [255, 0, 0]);
+    assertEquals(terminal.cellAt(10, 0)!.attrs, 0);
+    assertEquals(terminal.cellAt(10, 0)!.underlineColor, null);
+});